@@ -1,32 +1,96 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import Sidebar from './components/Sidebar';
 import ImageUploader from './components/ImageUploader';
-import BeforeAfter from './components/BeforeAfter';
-import { ViewMode, FilterSettings, PhotoItem } from './types';
-import { analyzeImageAndGetSettings, fileToGenerativePart } from './services/geminiService';
-
-const defaultSettings: FilterSettings = {
-  brightness: 100,
-  contrast: 100,
-  saturation: 100,
-  sepia: 0,
-  grayscale: 0,
-  hueRotate: 0,
-  blur: 0,
-  warmth: 0
-};
+import BeforeAfter, { PREVIEW_SIZE } from './components/BeforeAfter';
+import ProcessedImage from './components/ProcessedImage';
+import LazyTile from './components/LazyTile';
+import AdjustmentPanel from './components/AdjustmentPanel';
+import HistoryPanel from './components/HistoryPanel';
+import CurveEditor from './components/CurveEditor';
+import Histogram from './components/Histogram';
+import PresetPanel from './components/PresetPanel';
+import LutPanel from './components/LutPanel';
+import BatchSpellPanel from './components/BatchSpellPanel';
+import ExportOptionsDialog from './components/ExportOptionsDialog';
+import PhotoInfoPanel from './components/PhotoInfoPanel';
+import CropTool from './components/CropTool';
+import MaskPanel from './components/MaskPanel';
+import MaskOverlay, { BrushOptions } from './components/MaskOverlay';
+import SettingsView from './components/SettingsView';
+import LookVariantStrip from './components/LookVariantStrip';
+import RefinementChat from './components/RefinementChat';
+import PasteSettingsDialog from './components/PasteSettingsDialog';
+import CollectionToolbar from './components/CollectionToolbar';
+import CommandPalette, { PaletteItem } from './components/CommandPalette';
+import PhotoLibraryDetails, { LabelPicker, StarRating } from './components/PhotoLibraryDetails';
+import { ViewMode, FilterSettings, PhotoItem, EditHistory, Preset, Lut3D, BatchJobItem, ExportOptions, Preferences, ExifData, Geometry, AiPreferences, AnalysisResult, RefinementTurn, Album, ColorLabel, CommandId, ShortcutOverrides, LocalAdjustment } from './types';
+import { urlToBase64 } from './services/geminiService';
+import { analyzeImageAndGetSettings, defaultAiPreferences, describeEnhancementError, refineLook, suggestLookVariants } from './services/enhancementService';
+import { DEFAULT_TRANSFER_KEYS, SettingKey, copySettingKeys, defaultSettings } from './services/filterSettings';
+import { bakeSettingsToLut } from './services/renderPipeline';
+import { getLut, parseCubeFile, registerLut, serializeCube, unregisterLut } from './services/lutService';
+import { Histogram as HistogramData, computeHistogram, measureImage } from './services/imageStats';
+import { HistoryChange, canRedo, canUndo, createHistory, currentEntry, jumpTo, pushHistory, redo, undo } from './services/editHistory';
+import { StorageError, deleteLut, loadAlbums, loadCollection, loadLuts, loadPreferences, loadPresets, loadSession, saveAlbums, saveLut, savePreferences, savePresets, saveSessionImage, saveSessionState, syncCollection } from './services/storageService';
+import { applyPresetSettings, createPreset, createPresetThumbnail, parsePresetFile, serializePresets } from './services/presetService';
+import { downloadBlob } from './services/downloadService';
+import { ExportProgress, exportItemsAsZip, renderItemToBlob } from './services/exportService';
+import { createExportProfile, defaultExportOptions, describeExportOptions } from './services/exportOptions';
+import { readExifFromUrl } from './services/exifService';
+import { importImageFile } from './services/importService';
+import { defaultGeometry } from './services/geometry';
+import { DEFAULT_BRUSH_RADIUS, viewToMask } from './services/localAdjustments';
+import { getPreviewUrl, releaseOriginal } from './services/previewService';
+import { isAbortError, runBatch, throwIfAborted } from './services/batchRunner';
+import { PROJECT_FILE_EXTENSION, exportProject, exportXmpSidecars, parseProjectFile } from './services/projectService';
+import { Route, currentRoute, navigate, onRouteChange } from './services/router';
+import { COMMANDS, CommandHandler, comboFromEvent, findCommand, isTextField, resolveShortcuts } from './services/commands';
+import { CollectionFilter, createAlbum, defaultCollectionFilter, filterCollection, mergeTags, parseTags } from './services/collectionService';
+
+// Long edge of the rendered collection and export grid tiles
+const THUMBNAIL_SIZE = 480;
+
+// Photos analyzed at once by a batch spell; keeps us under the API's rate limits
+const BATCH_CONCURRENCY = 3;
+
+// Looks offered side by side by "Variations"
+const LOOK_VARIANT_COUNT = 3;
 
 const App: React.FC = () => {
-  const [view, setView] = useState<ViewMode>(ViewMode.HOME);
+  const [route, setRoute] = useState<Route>(currentRoute); // Mirrors the URL; change it with navigate()
+  const view = route.view;
   const [isSidebarOpen, setSidebarOpen] = useState(false); // Mobile
   const [isSidebarCollapsed, setSidebarCollapsed] = useState(false); // Desktop
   
   // Editor State
   const [currentImage, setCurrentImage] = useState<string | null>(null);
-  const [currentSettings, setCurrentSettings] = useState<FilterSettings>(defaultSettings);
+  const [currentHistory, setCurrentHistory] = useState<EditHistory>(() => createHistory(defaultSettings));
+  const [editingId, setEditingId] = useState<string | null>(null); // Collection item being edited, if any
+  const [currentExif, setCurrentExif] = useState<ExifData | null>(null);
+  const [currentGeometry, setCurrentGeometry] = useState<Geometry>(defaultGeometry); // Kept out of history, like the image itself
+  const [isCropping, setIsCropping] = useState(false);
+  const [activeMaskId, setActiveMaskId] = useState<string | null>(null); // Mask whose handles are shown on the photo
+  const [brush, setBrush] = useState<BrushOptions>({ radius: DEFAULT_BRUSH_RADIUS, erase: false });
+  const [showMaskOverlay, setShowMaskOverlay] = useState(true);
+  // Shape of the open photo as decoded by the preview, which masks are placed on; tagged so a new photo never uses the last one's
+  const [sourceSize, setSourceSize] = useState<{ src: string; width: number; height: number } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [aiReasoning, setAiReasoning] = useState<string>("");
+  const [lookVariants, setLookVariants] = useState<AnalysisResult[]>([]);
+  const [activeVariant, setActiveVariant] = useState<number | null>(null);
+  const [refinementThread, setRefinementThread] = useState<RefinementTurn[]>([]); // Context for follow-up prompts
+  const [copiedSettings, setCopiedSettings] = useState<FilterSettings | null>(null);
+  // Open paste/sync dialog: where the settings go, and which photo they come from (null: the copied settings)
+  const [settingsTransfer, setSettingsTransfer] = useState<{ target: 'current' | 'selection'; sourceId: string | null } | null>(null);
+  const [transferKeys, setTransferKeys] = useState<SettingKey[]>(DEFAULT_TRANSFER_KEYS);
   const [showCompare, setShowCompare] = useState(false);
+  const [holdOriginal, setHoldOriginal] = useState(false); // Original shown while its shortcut is held
+  const [showPalette, setShowPalette] = useState(false);
+  const [showHistogram, setShowHistogram] = useState(true);
+  const [previewHistogram, setPreviewHistogram] = useState<HistogramData | null>(null);
+  const currentSettings = currentEntry(currentHistory).settings;
+  const activeMask = currentSettings.localAdjustments.find(adjustment => adjustment.id === activeMaskId); // Gone after undoing its creation
+  const maskSource = sourceSize && sourceSize.src === currentImage ? sourceSize : null;
   
   // Inputs
   const [promptText, setPromptText] = useState("");
@@ -35,14 +99,544 @@ const App: React.FC = () => {
   // Collection & Export State
   const [collection, setCollection] = useState<PhotoItem[]>([]);
   const [exportSelection, setExportSelection] = useState<Set<string>>(new Set());
+  const [collectionSelection, setCollectionSelection] = useState<Set<string>>(new Set());
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [collectionFilter, setCollectionFilter] = useState<CollectionFilter>(defaultCollectionFilter);
+  const [bulkTags, setBulkTags] = useState("");
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null); // Set while a ZIP is being built
+  const [includeManifest, setIncludeManifest] = useState(true);
+  const [showExportOptions, setShowExportOptions] = useState(false);
+
+  // Preset Library
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [luts, setLuts] = useState<Lut3D[]>([]);
+  const [preferences, setPreferences] = useState<Preferences>({ exportOptions: defaultExportOptions, exportProfiles: [], ai: defaultAiPreferences, shortcuts: {} });
+
+  // Batch spell state
+  const [showBatchPanel, setShowBatchPanel] = useState(false);
+  const [batchItems, setBatchItems] = useState<BatchJobItem[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [batchPrompt, setBatchPrompt] = useState("");
+  const [batchRefImage, setBatchRefImage] = useState<string | null>(null);
+  const batchAbort = useRef<AbortController | null>(null);
+
+  // Persistence State
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [storageError, setStorageError] = useState<StorageError | null>(null);
+  const persistedCollection = useRef<PhotoItem[]>([]);
+  const persistedPresets = useRef<Preset[]>([]);
+  const persistedAlbums = useRef<Album[]>([]);
+  const persistedPreferences = useRef<Preferences | null>(null);
+
+  useEffect(() => onRouteChange(setRoute), []);
+
+  const reportStorageError = useCallback((error: unknown) => {
+      console.error("Storage Error", error);
+      if (error instanceof StorageError) setStorageError(error);
+  }, []);
+
+  // Restore the collection and the last editor session before any writes happen
+  useEffect(() => {
+      let cancelled = false;
+      Promise.all([loadCollection(), loadSession(), loadPresets(), loadLuts(), loadPreferences(), loadAlbums()])
+          .then(([items, session, savedPresets, savedLuts, savedPreferences, savedAlbums]) => {
+              if (cancelled) return;
+              // LUTs must be registered before anything renders with a lutId
+              savedLuts.forEach(registerLut);
+              setLuts(savedLuts);
+              persistedCollection.current = items;
+              setCollection(items);
+              persistedPresets.current = savedPresets;
+              setPresets(savedPresets);
+              persistedAlbums.current = savedAlbums;
+              setAlbums(savedAlbums);
+              persistedPreferences.current = savedPreferences;
+              setPreferences(savedPreferences);
+              if (session) {
+                  setCurrentImage(session.image);
+                  setRefImage(session.refImage);
+                  if (session.history) setCurrentHistory(session.history);
+                  if (session.geometry) setCurrentGeometry(session.geometry);
+                  setEditingId(session.editingId);
+                  setPromptText(session.promptText);
+                  // Give the restored photo its own URL, unless the URL already names a photo
+                  const restored = currentRoute();
+                  if (restored.view === ViewMode.HOME && !restored.photoId && items.some(item => item.id === session.editingId)) {
+                      navigate({ view: ViewMode.HOME, photoId: session.editingId ?? undefined }, { replace: true });
+                  }
+              }
+          })
+          .catch(reportStorageError)
+          .finally(() => {
+              if (!cancelled) setIsHydrated(true);
+          });
+      return () => { cancelled = true; };
+  }, [reportStorageError]);
+
+  useEffect(() => {
+      if (!isHydrated) return;
+      const prev = persistedCollection.current;
+      persistedCollection.current = collection;
+      syncCollection(prev, collection).catch(reportStorageError);
+  }, [collection, isHydrated, reportStorageError]);
+
+  useEffect(() => {
+      if (!isHydrated || presets === persistedPresets.current) return;
+      persistedPresets.current = presets;
+      savePresets(presets).catch(reportStorageError);
+  }, [presets, isHydrated, reportStorageError]);
+
+  useEffect(() => {
+      if (!isHydrated || albums === persistedAlbums.current) return;
+      persistedAlbums.current = albums;
+      saveAlbums(albums).catch(reportStorageError);
+  }, [albums, isHydrated, reportStorageError]);
+
+  useEffect(() => {
+      if (!isHydrated || preferences === persistedPreferences.current) return;
+      persistedPreferences.current = preferences;
+      savePreferences(preferences).catch(reportStorageError);
+  }, [preferences, isHydrated, reportStorageError]);
+
+  useEffect(() => {
+      if (!isHydrated) return;
+      saveSessionImage('image', currentImage).catch(reportStorageError);
+  }, [currentImage, isHydrated, reportStorageError]);
+
+  useEffect(() => {
+      if (!isHydrated) return;
+      saveSessionImage('refImage', refImage).catch(reportStorageError);
+  }, [refImage, isHydrated, reportStorageError]);
+
+  // Originals are freed, previews included, once neither the editor nor the collection holds them.
+  // Runs after the session saves above, which have started reading a replaced image by now.
+  const liveOriginals = useRef(new Set<string>());
+  useEffect(() => {
+      const live = new Set([currentImage, refImage, batchRefImage, ...collection.map(item => item.originalUrl)]
+          .filter((url): url is string => !!url));
+      liveOriginals.current.forEach(url => { if (!live.has(url)) releaseOriginal(url); });
+      liveOriginals.current = live;
+  }, [currentImage, refImage, batchRefImage, collection]);
+
+  useEffect(() => {
+      if (!isHydrated) return;
+      // Debounced so slider drags and typing don't hammer IndexedDB
+      const timer = setTimeout(() => {
+          saveSessionState(currentHistory, currentGeometry, editingId, promptText).catch(reportStorageError);
+      }, 400);
+      return () => clearTimeout(timer);
+  }, [currentHistory, currentGeometry, editingId, promptText, isHydrated, reportStorageError]);
+
+  // Metadata is read from the image itself so it survives reloads and opening collection photos
+  useEffect(() => {
+      setCurrentExif(null);
+      if (!currentImage) return;
+      let cancelled = false;
+      readExifFromUrl(currentImage)
+          .then((exif) => { if (!cancelled) setCurrentExif(exif); })
+          .catch((error) => console.error("Could not read metadata", error));
+      return () => { cancelled = true; };
+  }, [currentImage]);
+
+  const applyChange = (change: HistoryChange) => {
+      setCurrentHistory(prev => pushHistory(prev, change));
+  };
+
+  // Read by callbacks that outlive the render they were made in, such as batch results
+  const editingIdRef = useRef(editingId);
+  editingIdRef.current = editingId;
+  const currentImageRef = useRef(currentImage);
+  currentImageRef.current = currentImage;
+
+  // Pushes a change onto collection photos. The photo open in the editor gets it on top of its
+  // unsaved edits too, as the editor's history is what the next save writes back.
+  const pushToPhotos = (ids: Set<string>, change: (settings: FilterSettings) => HistoryChange, patch: Partial<PhotoItem> = {}) => {
+      setCollection(prev => prev.map(item => {
+          if (!ids.has(item.id)) return item;
+          const entry = change(item.settings);
+          return { ...item, ...patch, settings: entry.settings, history: pushHistory(item.history ?? createHistory(item.settings), entry) };
+      }));
+      const openId = editingIdRef.current;
+      if (openId && ids.has(openId)) setCurrentHistory(prev => pushHistory(prev, change(currentEntry(prev).settings)));
+  };
+
+  const handleManualChange = (settings: FilterSettings, label: string) => {
+      applyChange({ source: 'manual', label, settings });
+  };
+
+  const handleLocalAdjustmentsChange = (localAdjustments: LocalAdjustment[], label: string) => {
+      handleManualChange({ ...currentSettings, localAdjustments }, label);
+  };
+
+  const handleMaskChange = (changed: LocalAdjustment, label: string) => {
+      handleLocalAdjustmentsChange(currentSettings.localAdjustments.map(adjustment => adjustment.id === changed.id ? changed : adjustment), label);
+  };
+
+  const handlePreviewRender = useCallback((imageData: ImageData) => {
+      setPreviewHistogram(computeHistogram(imageData));
+  }, []);
+
+  const handlePreviewSourceSize = useCallback((width: number, height: number) => {
+      if (currentImage) setSourceSize({ src: currentImage, width, height });
+  }, [currentImage]);
+
+  // Edits reach the collection through Save, so switching photos saves the open one first rather than dropping them
+  const commitOpenPhoto = () => {
+      if (!editingId) return;
+      setCollection(prev => prev.map(item => item.id === editingId && (item.history !== currentHistory || item.geometry !== currentGeometry)
+          ? { ...item, settings: currentSettings, history: currentHistory, geometry: currentGeometry }
+          : item
+      ));
+  };
+
+  const openPhoto = (item: PhotoItem) => {
+      // Already open, possibly with edits the collection's copy doesn't have yet
+      if (item.id === editingId && currentImage === item.originalUrl) return;
+      commitOpenPhoto();
+      setCurrentImage(item.originalUrl);
+      setCurrentHistory(item.history ?? createHistory(item.settings));
+      setCurrentGeometry(item.geometry ?? defaultGeometry);
+      setIsCropping(false);
+      setActiveMaskId(null);
+      setEditingId(item.id);
+      setAiReasoning(item.aiReasoning ?? "");
+      setLookVariants([]);
+      setRefinementThread([]);
+  };
+
+  const handleOpenForEditing = (item: PhotoItem) => {
+      openPhoto(item);
+      navigate({ view: ViewMode.HOME, photoId: item.id });
+  };
+
+  // Follows deep links and Back/Forward once the collection has loaded. Only route changes
+  // trigger this, so editing state that moves on its own doesn't drag the editor back.
+  useEffect(() => {
+      if (!isHydrated) return;
+      if (route.view === ViewMode.HOME && route.photoId && route.photoId !== editingId) {
+          const item = collection.find(photo => photo.id === route.photoId);
+          if (item) openPhoto(item);
+          else navigate({ view: ViewMode.HOME }, { replace: true });
+      }
+      if (route.view === ViewMode.COLLECTION) {
+          const albumId = route.albumId && albums.some(album => album.id === route.albumId) ? route.albumId : null;
+          if (route.albumId && !albumId) navigate({ view: ViewMode.COLLECTION }, { replace: true });
+          setCollectionFilter(prev => prev.albumId === albumId ? prev : { ...prev, albumId });
+      }
+  }, [route, isHydrated]);
+
+  // --- Presets ---
+  const handleApplyPreset = (preset: Preset) => {
+      applyChange({ source: 'preset', label: preset.name, detail: preset.reasoning, settings: applyPresetSettings(preset, currentSettings) });
+  };
+
+  const handleSavePreset = async (name: string) => {
+      if (!currentImage) return;
+      // Keep the prompt and reasoning when the current look came straight from the AI
+      const entry = currentEntry(currentHistory);
+      const fromAi = entry.source === 'ai';
+      const thumbnail = await createPresetThumbnail(currentImage, currentSettings).catch(() => undefined);
+      const preset = createPreset(name || (fromAi ? entry.label : ''), currentSettings, {
+          thumbnail,
+          prompt: fromAi ? entry.label : undefined,
+          reasoning: fromAi ? entry.detail : undefined
+      });
+      setPresets(prev => [...prev, preset]);
+  };
+
+  const handleDeletePreset = (id: string) => {
+      setPresets(prev => prev.filter(preset => preset.id !== id));
+  };
+
+  const handleImportPresets = async (file: File) => {
+      try {
+          const imported = parsePresetFile(await file.text());
+          setPresets(prev => [...prev, ...imported]);
+          alert(`Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}.`);
+      } catch (error) {
+          alert(error instanceof Error ? error.message : "Could not import presets.");
+      }
+  };
+
+  const handleExportPresets = () => {
+      const blob = new Blob([serializePresets(presets)], { type: 'application/json' });
+      downloadBlob(blob, 'bananalens-presets.json');
+  };
+
+  // --- LUTs ---
+  const handleImportLut = async (file: File) => {
+      try {
+          const lut = parseCubeFile(await file.text(), file.name.replace(/\.cube$/i, ''));
+          // IDs come from the content, so loading a LUT that is already in the library just selects it
+          if (!luts.some(known => known.id === lut.id)) {
+              registerLut(lut);
+              setLuts(prev => [...prev, lut].sort((a, b) => a.name.localeCompare(b.name)));
+              saveLut(lut).catch(reportStorageError);
+          }
+          const missingId = currentImage && currentSettings.lutId && !getLut(currentSettings.lutId) ? currentSettings.lutId : null;
+          if (missingId) {
+              relinkLut(missingId, lut.id);
+          } else if (currentImage) {
+              applyChange({ source: 'manual', label: 'LUT', detail: lut.name, settings: { ...currentSettings, lutId: lut.id } });
+          }
+      } catch (error) {
+          alert(error instanceof Error ? error.message : "Could not load the LUT.");
+      }
+  };
+
+  // Points everything that used a LUT no longer in the library at `toId` instead, history included
+  const relinkLut = (fromId: string, toId: string) => {
+      const relink = (settings: FilterSettings) => settings.lutId === fromId ? { ...settings, lutId: toId } : settings;
+      const relinkHistory = (history: EditHistory) => ({ ...history, entries: history.entries.map(entry => ({ ...entry, settings: relink(entry.settings) })) });
+      setCurrentHistory(relinkHistory);
+      setCollection(prev => prev.map(item => item.settings.lutId === fromId || item.history?.entries.some(entry => entry.settings.lutId === fromId)
+          ? { ...item, settings: relink(item.settings), history: item.history && relinkHistory(item.history) }
+          : item
+      ));
+      setPresets(prev => prev.map(preset => preset.settings.lutId === fromId ? { ...preset, settings: relink(preset.settings) } : preset));
+  };
+
+  const handleDeleteLut = (id: string) => {
+      unregisterLut(id);
+      setLuts(prev => prev.filter(lut => lut.id !== id));
+      deleteLut(id).catch(reportStorageError);
+  };
+
+  const handleBakeLut = () => {
+      const name = collection.find(item => item.id === editingId)?.name ?? 'bananalens-look';
+      const lut = bakeSettingsToLut(currentSettings, name);
+      const blob = new Blob([serializeCube(lut)], { type: 'text/plain' });
+      downloadBlob(blob, `${name.replace(/\s+/g, '-').toLowerCase()}.cube`);
+  };
+
+  const handleApplyPresetToSelection = (presetId: string) => {
+      const preset = presets.find(p => p.id === presetId);
+      if (!preset || collectionSelection.size === 0) return;
+      pushToPhotos(collectionSelection, settings => ({
+          source: 'preset', label: preset.name, detail: preset.reasoning, settings: applyPresetSettings(preset, settings)
+      }));
+  };
+
+  // --- Copy, paste & sync ---
+
+  const handleOpenSyncSettings = () => {
+      // Default to the copied settings, else the photo open in the editor, else the first selected photo
+      const editing = collection.find(item => item.id === editingId);
+      const firstSelected = collection.find(item => collectionSelection.has(item.id));
+      setSettingsTransfer({ target: 'selection', sourceId: copiedSettings ? null : (editing ?? firstSelected)?.id ?? null });
+  };
+
+  const handleConfirmTransfer = (keys: SettingKey[]) => {
+      if (!settingsTransfer) return;
+      setTransferKeys(keys);
+      setSettingsTransfer(null);
+      const sourceItem = collection.find(item => item.id === settingsTransfer.sourceId);
+      const source = sourceItem?.settings ?? copiedSettings;
+      if (!source) return;
+
+      if (settingsTransfer.target === 'current') {
+          applyChange({ source: 'manual', label: 'Paste settings', detail: `${keys.length} settings`, settings: copySettingKeys(currentSettings, source, keys) });
+          return;
+      }
+      const label = sourceItem ? `Synced from ${sourceItem.name}` : 'Paste settings';
+      const targets = new Set(Array.from(collectionSelection).filter(id => id !== sourceItem?.id));
+      pushToPhotos(targets, settings => ({
+          source: 'manual', label, detail: `${keys.length} settings`, settings: copySettingKeys(settings, source, keys)
+      }));
+  };
+
+  // --- Batch spell ---
+
+  const updateBatchItem = (photoId: string, patch: Partial<BatchJobItem>) => {
+      setBatchItems(prev => prev.map(job => job.photoId === photoId ? { ...job, ...patch } : job));
+  };
+
+  const runBatchSpell = async (ids: string[]) => {
+      const targets = collection.filter(item => ids.includes(item.id));
+      if (targets.length === 0 || isBatchRunning) return;
+
+      const controller = new AbortController();
+      batchAbort.current = controller;
+      setIsBatchRunning(true);
+      // A retry only resets the failed rows; finished ones keep their results
+      setBatchItems(prev => {
+          const rest = prev.filter(job => !ids.includes(job.photoId));
+          const queued: BatchJobItem[] = targets.map(item => ({ photoId: item.id, name: item.name, status: 'pending' }));
+          return [...rest, ...queued];
+      });
+
+      const prompt = batchPrompt;
+      const label = prompt || 'Auto-enhance';
+      try {
+          const refBase64 = batchRefImage ? await urlToBase64(await getPreviewUrl(batchRefImage, PREVIEW_SIZE)) : undefined;
+
+          await runBatch(targets, async (item, signal) => {
+              // Providers get the editor-size preview; full resolution adds upload time, not accuracy
+              const preview = await getPreviewUrl(item.originalUrl, PREVIEW_SIZE);
+              throwIfAborted(signal);
+              const base64 = await urlToBase64(preview);
+              throwIfAborted(signal);
+              const stats = await measureImage(preview).catch((error) => {
+                  console.error("Could not measure image", error);
+                  return undefined;
+              });
+              throwIfAborted(signal);
+              return analyzeImageAndGetSettings(base64, prompt, refBase64, stats, preferences.ai, signal);
+          }, {
+              concurrency: BATCH_CONCURRENCY,
+              signal: controller.signal,
+              onStart: (item) => updateBatchItem(item.id, { status: 'running', error: undefined, reasoning: undefined }),
+              onSuccess: (item, result) => {
+                  // Applied on top of the item's latest settings in case it changed while queued
+                  pushToPhotos(new Set([item.id]), settings => ({
+                      source: 'ai', label, detail: result.reasoning, settings: { ...settings, ...result.suggestedSettings }
+                  }), { aiReasoning: result.reasoning });
+                  if (item.id === editingIdRef.current) setAiReasoning(result.reasoning);
+                  updateBatchItem(item.id, { status: 'done', reasoning: result.reasoning });
+              },
+              onError: (item, error) => {
+                  if (isAbortError(error)) {
+                      updateBatchItem(item.id, { status: 'cancelled' });
+                  } else {
+                      console.error("Batch spell failed for", item.name, error);
+                      updateBatchItem(item.id, { status: 'error', error: describeEnhancementError(error) });
+                  }
+              }
+          });
+      } catch (error) {
+          console.error("Batch spell failed", error);
+          setBatchItems(prev => prev.map(job => ids.includes(job.photoId) && job.status === 'pending'
+              ? { ...job, status: 'error', error: 'Could not read the reference image.' }
+              : job
+          ));
+      } finally {
+          // Anything never started because of a cancel is reported as such
+          setBatchItems(prev => prev.map(job => job.status === 'pending' ? { ...job, status: 'cancelled' } : job));
+          batchAbort.current = null;
+          setIsBatchRunning(false);
+      }
+  };
+
+  const handleStartBatchSpell = () => {
+      setBatchItems([]);
+      runBatchSpell(Array.from(collectionSelection));
+  };
+
+  const handleRetryFailedBatch = () => {
+      runBatchSpell(batchItems.filter(job => job.status === 'error' || job.status === 'cancelled').map(job => job.photoId));
+  };
+
+  const handleCancelBatch = () => batchAbort.current?.abort();
+
+  const handleBatchRefImageSelect = (file: File) => {
+      setBatchRefImage(URL.createObjectURL(file));
+  };
+
+  const toggleCollectionSelection = (id: string) => {
+      const newSet = new Set(collectionSelection);
+      if (newSet.has(id)) {
+          newSet.delete(id);
+      } else {
+          newSet.add(id);
+      }
+      setCollectionSelection(newSet);
+  };
+
+  // --- Collection management ---
+
+  const updatePhotos = (ids: Set<string>, update: (item: PhotoItem) => PhotoItem) =>
+      setCollection(prev => prev.map(item => ids.has(item.id) ? update(item) : item));
+
+  const handleRenamePhoto = (id: string, name: string) => updatePhotos(new Set([id]), item => ({ ...item, name }));
+
+  // Ratings of 0 and a null label clear them
+  const handleRatePhotos = (ids: Set<string>, rating: number) =>
+      updatePhotos(ids, item => ({ ...item, rating: rating || undefined }));
+
+  const handleLabelPhotos = (ids: Set<string>, label: ColorLabel | null) =>
+      updatePhotos(ids, item => ({ ...item, label: label ?? undefined }));
+
+  const handleAddTagsToSelection = () => {
+      const tags = parseTags(bulkTags);
+      if (tags.length === 0) return;
+      updatePhotos(collectionSelection, item => ({ ...item, tags: mergeTags(item.tags, tags) }));
+      setBulkTags("");
+  };
+
+  const handleDeletePhotos = (ids: Set<string>) => {
+      const targets = collection.filter(item => ids.has(item.id));
+      if (targets.length === 0) return;
+      const question = targets.length === 1 ? `Delete "${targets[0].name}"?` : `Delete ${targets.length} photos?`;
+      if (!confirm(`${question} Their edits will be lost; this can't be undone.`)) return;
+      setCollection(prev => prev.filter(item => !ids.has(item.id)));
+      const without = (prev: Set<string>) => new Set(Array.from(prev).filter(id => !ids.has(id)));
+      setCollectionSelection(without);
+      setExportSelection(without);
+      // The editor keeps the photo, now as an unsaved image
+      if (editingId && ids.has(editingId)) {
+          setEditingId(null);
+          if (view === ViewMode.HOME) navigate({ view: ViewMode.HOME }, { replace: true });
+      }
+  };
+
+  const handleCreateAlbum = (name: string) => {
+      const album = createAlbum(name);
+      setAlbums(prev => [...prev, album]);
+      // Creating an album with photos selected files them straight away
+      if (collectionSelection.size > 0) {
+          updatePhotos(collectionSelection, item => ({ ...item, albumIds: [...(item.albumIds ?? []), album.id] }));
+      }
+  };
+
+  const handleDeleteAlbum = (id: string) => {
+      const album = albums.find(a => a.id === id);
+      if (!album || !confirm(`Delete album "${album.name}"? Its photos stay in your collection.`)) return;
+      setAlbums(prev => prev.filter(a => a.id !== id));
+      setCollection(prev => prev.map(item => item.albumIds?.includes(id)
+          ? { ...item, albumIds: item.albumIds.filter(albumId => albumId !== id) }
+          : item
+      ));
+      if (collectionFilter.albumId === id) {
+          setCollectionFilter({ ...collectionFilter, albumId: null });
+          navigate({ view: ViewMode.COLLECTION }, { replace: true });
+      }
+  };
+
+  // Albums are part of the URL so they can be bookmarked and left with Back
+  const handleCollectionFilterChange = (filter: CollectionFilter) => {
+      setCollectionFilter(filter);
+      if (filter.albumId !== collectionFilter.albumId) {
+          navigate({ view: ViewMode.COLLECTION, albumId: filter.albumId ?? undefined });
+      }
+  };
+
+  const handleAddSelectionToAlbum = (albumId: string) =>
+      updatePhotos(collectionSelection, item => item.albumIds?.includes(albumId)
+          ? item
+          : { ...item, albumIds: [...(item.albumIds ?? []), albumId] }
+      );
+
+  const handleRemoveSelectionFromAlbum = (albumId: string) =>
+      updatePhotos(collectionSelection, item => ({ ...item, albumIds: item.albumIds?.filter(id => id !== albumId) }));
+
+  const handleUndo = () => setCurrentHistory(prev => undo(prev));
+  const handleRedo = () => setCurrentHistory(prev => redo(prev));
+  const handleJumpToHistory = (index: number) => setCurrentHistory(prev => jumpTo(prev, index));
 
   const handleImageSelect = async (file: File) => {
     try {
-      const base64 = await fileToGenerativePart(file);
-      setCurrentImage(`data:${file.type};base64,${base64}`);
-      setCurrentSettings(defaultSettings);
+      const { url } = await importImageFile(file);
+      setCurrentImage(url);
+      setCurrentHistory(createHistory(defaultSettings));
+      setCurrentGeometry(defaultGeometry);
+      setIsCropping(false);
+      setActiveMaskId(null);
+      setEditingId(null);
       setAiReasoning("");
+      setLookVariants([]);
+      setRefinementThread([]);
       setShowCompare(false);
+      navigate({ view: ViewMode.HOME }, { replace: true });
     } catch (error) {
       console.error("Error loading image", error);
     }
@@ -50,81 +644,229 @@ const App: React.FC = () => {
 
   const handleResetImage = () => {
       setCurrentImage(null);
-      setCurrentSettings(defaultSettings);
+      setCurrentHistory(createHistory(defaultSettings));
+      setCurrentGeometry(defaultGeometry);
+      setIsCropping(false);
+      setActiveMaskId(null);
+      setEditingId(null);
       setAiReasoning("");
+      setLookVariants([]);
+      setRefinementThread([]);
       setShowCompare(false);
+      navigate({ view: ViewMode.HOME }, { replace: true });
       setPromptText("");
       setRefImage(null);
   };
 
   const handleRefImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
      if(e.target.files && e.target.files[0]) {
-         const base64 = await fileToGenerativePart(e.target.files[0]);
-         setRefImage(`data:${e.target.files[0].type};base64,${base64}`);
+         setRefImage(URL.createObjectURL(e.target.files[0]));
      }
   }
 
+  // Everything a provider gets about the current photo
+  const prepareSpellInputs = async (image: string) => {
+      // Providers get the editor-size preview; full resolution adds upload time, not accuracy
+      const preview = await getPreviewUrl(image, PREVIEW_SIZE);
+      const cleanBase64 = await urlToBase64(preview);
+      const cleanRefBase64 = refImage ? await urlToBase64(await getPreviewUrl(refImage, PREVIEW_SIZE)) : undefined;
+      // Statistics are a bonus for the model; the spell still works without them
+      const stats = await measureImage(preview).catch((error) => {
+          console.error("Could not measure image", error);
+          return undefined;
+      });
+      return { cleanBase64, cleanRefBase64, stats };
+  };
+
+  // AI requests outlive the render they start in, and the user may open another photo meanwhile
+  const captureOpenPhoto = () => ({ id: editingIdRef.current, image: currentImageRef.current });
+  const isStillOpen = (photo: ReturnType<typeof captureOpenPhoto>) =>
+      photo.id === editingIdRef.current && photo.image === currentImageRef.current;
+
+  // Lands an AI result on the photo it was requested for: the editor if that photo is still open,
+  // otherwise its collection item. Results for an unsaved photo that was replaced are dropped.
+  // Returns whether the photo is still open, so callers know whether to update the editor's AI panel.
+  const applyAiResult = (photo: ReturnType<typeof captureOpenPhoto>, reasoning: string, change: (settings: FilterSettings) => HistoryChange) => {
+      if (isStillOpen(photo)) {
+          setCurrentHistory(prev => pushHistory(prev, change(currentEntry(prev).settings)));
+          return true;
+      }
+      if (photo.id) pushToPhotos(new Set([photo.id]), change, { aiReasoning: reasoning });
+      return false;
+  };
+
   const handleCastSpell = async () => {
     if (!currentImage) return;
+    const photo = captureOpenPhoto();
 
     setIsProcessing(true);
     setAiReasoning("Nano Banana is analyzing histogram, exposure, and composition...");
 
     try {
-      const cleanBase64 = currentImage.split(',')[1];
-      const cleanRefBase64 = refImage ? refImage.split(',')[1] : undefined;
-
-      const result = await analyzeImageAndGetSettings(cleanBase64, promptText, cleanRefBase64);
+      const { cleanBase64, cleanRefBase64, stats } = await prepareSpellInputs(currentImage);
+      const result = await analyzeImageAndGetSettings(cleanBase64, promptText, cleanRefBase64, stats, preferences.ai);
       
-      setCurrentSettings(prev => ({...prev, ...result.suggestedSettings}));
+      const stillOpen = applyAiResult(photo, result.reasoning, settings => ({
+          source: 'ai',
+          label: promptText || 'Auto-enhance',
+          detail: result.reasoning,
+          // Suggestions are complete looks; only the photo's LUT carries over
+          settings: { ...settings, ...result.suggestedSettings }
+      }));
+      if (!stillOpen) return;
       setAiReasoning(result.reasoning);
+      setLookVariants([]);
+      // A fresh spell starts a new conversation about this look
+      setRefinementThread([{ prompt: promptText || 'Auto-enhance', reasoning: result.reasoning }]);
       setShowCompare(false); 
     } catch (error) {
       console.error("AI Error", error);
-      setAiReasoning("Oops! The spell fizzled. Please try again.");
+      if (isStillOpen(photo)) setAiReasoning(describeEnhancementError(error));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleSuggestVariants = async () => {
+    if (!currentImage) return;
+    const photo = captureOpenPhoto();
+
+    setIsProcessing(true);
+    setAiReasoning("Nano Banana is dreaming up a few different looks...");
+
+    try {
+      const { cleanBase64, cleanRefBase64, stats } = await prepareSpellInputs(currentImage);
+      const variants = await suggestLookVariants(cleanBase64, promptText, cleanRefBase64, stats, preferences.ai, LOOK_VARIANT_COUNT);
+      // Variants are looks for the photo they were made from, so they are only offered while it is open
+      if (!isStillOpen(photo)) return;
+      setLookVariants(variants);
+      setActiveVariant(null);
+      setAiReasoning(`Here are ${variants.length} looks. Pick one to apply it.`);
+    } catch (error) {
+      console.error("AI Error", error);
+      if (isStillOpen(photo)) setAiReasoning(describeEnhancementError(error));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleApplyVariant = (index: number) => {
+      const variant = lookVariants[index];
+      setCurrentHistory(prev => pushHistory(prev, {
+          source: 'ai',
+          label: promptText ? `${promptText} · ${variant.name}` : variant.name ?? 'Variation',
+          detail: variant.reasoning,
+          settings: { ...currentEntry(prev).settings, ...variant.suggestedSettings }
+      }));
+      setActiveVariant(index);
+      setAiReasoning(variant.reasoning);
+      setRefinementThread([{ prompt: variant.name ?? 'Variation', reasoning: variant.reasoning }]);
+      setShowCompare(false);
+  };
+
+  const handleRefine = async (followUp: string) => {
+    if (!currentImage) return;
+    const photo = captureOpenPhoto();
+
+    setIsProcessing(true);
+    setAiReasoning("Nano Banana is adjusting the look...");
+
+    try {
+      const { cleanBase64, cleanRefBase64, stats } = await prepareSpellInputs(currentImage);
+      const result = await refineLook(cleanBase64, followUp, cleanRefBase64, stats, preferences.ai, currentSettings, refinementThread);
+      const stillOpen = applyAiResult(photo, result.reasoning, settings => ({
+          source: 'ai',
+          label: followUp,
+          detail: result.reasoning,
+          settings: { ...settings, ...result.suggestedSettings }
+      }));
+      if (!stillOpen) return;
+      setRefinementThread(prev => [...prev, { prompt: followUp, reasoning: result.reasoning }]);
+      setAiReasoning(result.reasoning);
+      setShowCompare(false);
+    } catch (error) {
+      console.error("AI Error", error);
+      if (isStillOpen(photo)) setAiReasoning(describeEnhancementError(error));
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const handleSaveVariantAsPreset = async (index: number) => {
+      if (!currentImage) return;
+      const variant = lookVariants[index];
+      // Saved as shown in the strip, on top of the current LUT
+      const settings = { ...currentSettings, ...variant.suggestedSettings };
+      const thumbnail = await createPresetThumbnail(currentImage, settings).catch(() => undefined);
+      const preset = createPreset(variant.name ?? '', settings, {
+          thumbnail,
+          prompt: promptText || undefined,
+          reasoning: variant.reasoning
+      });
+      setPresets(prev => [...prev, preset]);
+  };
+
   const handleSaveToCollection = () => {
     if (!currentImage) return;
+    // Re-saving a photo opened from the collection updates it instead of duplicating it
+    if (editingId && collection.some(item => item.id === editingId)) {
+        setCollection(collection.map(item => item.id === editingId
+            ? { ...item, settings: currentSettings, history: currentHistory, geometry: currentGeometry }
+            : item
+        ));
+        alert("Collection photo updated!");
+        return;
+    }
     const newItem: PhotoItem = {
         id: Date.now().toString() + Math.random().toString().slice(2,6),
         originalUrl: currentImage,
         name: `Photo ${collection.length + 1}`,
         timestamp: Date.now(),
-        settings: currentSettings
+        settings: currentSettings,
+        history: currentHistory,
+        geometry: currentGeometry,
+        exif: currentExif ?? undefined
     };
     setCollection([newItem, ...collection]);
+    setEditingId(newItem.id);
+    navigate({ view: ViewMode.HOME, photoId: newItem.id }, { replace: true });
     alert("Saved to collection!");
   };
 
-  const processAndDownloadImage = (item: PhotoItem) => {
-      return new Promise<void>((resolve) => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        const img = new Image();
-        img.src = item.originalUrl;
-        img.onload = () => {
-            canvas.width = img.width;
-            canvas.height = img.height;
-            if (ctx) {
-                const s = item.settings;
-                ctx.filter = `brightness(${s.brightness}%) contrast(${s.contrast}%) saturate(${s.saturation}%) sepia(${s.sepia}%) grayscale(${s.grayscale}%) hue-rotate(${s.hueRotate}deg) blur(${s.blur}px)`;
-                ctx.drawImage(img, 0, 0);
-                
-                const link = document.createElement('a');
-                link.download = `bananalens-${item.name.replace(/\s+/g, '-').toLowerCase()}.png`;
-                link.href = canvas.toDataURL();
-                document.body.appendChild(link);
-                link.click();
-                document.body.removeChild(link);
-            }
-            resolve();
-        };
-        img.onerror = () => resolve(); // Fail safely
-      });
+  // --- Settings ---
+
+  const handleAiPreferencesChange = (ai: AiPreferences) => {
+      setPreferences(prev => ({ ...prev, ai }));
+  };
+
+  const handleShortcutsChange = (shortcuts: ShortcutOverrides) => {
+      setPreferences(prev => ({ ...prev, shortcuts }));
+  };
+
+  // --- Export ---
+
+  const handleExportOptionsChange = (exportOptions: ExportOptions) => {
+      setPreferences(prev => ({ ...prev, exportOptions }));
+  };
+
+  const handleSaveExportProfile = (name: string) => {
+      setPreferences(prev => ({
+          ...prev,
+          exportProfiles: [...prev.exportProfiles, createExportProfile(name, prev.exportOptions)]
+      }));
+  };
+
+  const handleDeleteExportProfile = (id: string) => {
+      setPreferences(prev => ({ ...prev, exportProfiles: prev.exportProfiles.filter(profile => profile.id !== id) }));
+  };
+
+  const processAndDownloadImage = async (item: PhotoItem) => {
+      try {
+          const { blob, filename } = await renderItemToBlob(item, preferences.exportOptions);
+          downloadBlob(blob, filename);
+      } catch (error) {
+          console.error("Export failed", item.name, error); // Fail safely
+      }
   };
 
   const handleSingleExport = () => {
@@ -134,43 +876,117 @@ const App: React.FC = () => {
           originalUrl: currentImage,
           name: 'edit',
           timestamp: Date.now(),
-          settings: currentSettings
+          settings: currentSettings,
+          geometry: currentGeometry,
+          exif: currentExif ?? undefined
       };
       processAndDownloadImage(tempItem);
   };
 
   const handleBatchExport = async () => {
-      if (exportSelection.size === 0) return;
+      if (exportSelection.size === 0 || exportProgress) return;
       
       // Select items to export
       const itemsToExport = collection.filter(item => exportSelection.has(item.id));
       
-      let processed = 0;
-      for (const item of itemsToExport) {
-          await processAndDownloadImage(item);
-          processed++;
-          // Small delay to prevent browser choking on multiple downloads
-          await new Promise(r => setTimeout(r, 500));
+      try {
+          const { zip, failed } = await exportItemsAsZip(itemsToExport, preferences.exportOptions, { includeManifest, onProgress: setExportProgress });
+          downloadBlob(zip, `bananalens-export-${new Date().toISOString().slice(0, 10)}.zip`);
+          setExportSelection(new Set()); // Clear selection
+          if (failed.length > 0) {
+              alert(`Exported ${itemsToExport.length - failed.length} photos. Could not render: ${failed.map(item => item.name).join(', ')}`);
+          }
+      } catch (error) {
+          console.error("Batch export failed", error);
+          alert(error instanceof Error ? error.message : "Export failed. Please try again.");
+      } finally {
+          setExportProgress(null);
+      }
+  };
+
+  // --- Projects & sidecars ---
+
+  const handleExportProject = async () => {
+      if (exportSelection.size === 0 || exportProgress) return;
+      const items = collection.filter(item => exportSelection.has(item.id));
+      try {
+          const blob = await exportProject(items, albums, presets, luts, setExportProgress);
+          downloadBlob(blob, `bananalens-project-${new Date().toISOString().slice(0, 10)}${PROJECT_FILE_EXTENSION}`);
+      } catch (error) {
+          console.error("Project export failed", error);
+          alert(error instanceof Error ? error.message : "Could not save the project. Please try again.");
+      } finally {
+          setExportProgress(null);
       }
-      
-      setExportSelection(new Set()); // Clear selection
-      alert(`Exported ${processed} photos.`);
+  };
+
+  const handleExportSidecars = async () => {
+      const items = collection.filter(item => exportSelection.has(item.id));
+      if (items.length === 0) return;
+      try {
+          const { blob, filename } = await exportXmpSidecars(items);
+          downloadBlob(blob, filename);
+      } catch (error) {
+          console.error("Sidecar export failed", error);
+          alert(error instanceof Error ? error.message : "Could not save the sidecars. Please try again.");
+      }
+  };
+
+  // Merges into the collection; nothing already there is replaced. Projects are read one at a time,
+  // each checked against what the ones before it added, so two projects can't bring the same IDs.
+  const handleImportProjects = async (files: File[]) => {
+      const known = { photos: collection, albums, presets, luts };
+      const errors: string[] = [];
+      for (const file of files) {
+          try {
+              const imported = await parseProjectFile(file, known);
+              known.photos = [...imported.photos, ...known.photos];
+              known.albums = [...known.albums, ...imported.albums];
+              known.presets = [...known.presets, ...imported.presets];
+              known.luts = [...known.luts, ...imported.luts];
+              imported.luts.forEach(lut => {
+                  registerLut(lut);
+                  saveLut(lut).catch(reportStorageError);
+              });
+              setLuts(prev => [...prev, ...imported.luts].sort((a, b) => a.name.localeCompare(b.name)));
+              setCollection(prev => [...imported.photos, ...prev]);
+              setAlbums(prev => [...prev, ...imported.albums]);
+              setPresets(prev => [...prev, ...imported.presets]);
+          } catch (error) {
+              const message = error instanceof Error ? error.message : "Could not open the project.";
+              errors.push(files.length > 1 ? `${file.name}: ${message}` : message);
+          }
+      }
+
+      const photos = known.photos.length - collection.length;
+      const newAlbums = known.albums.length - albums.length;
+      const newPresets = known.presets.length - presets.length;
+      const extras = [
+          newAlbums > 0 ? `${newAlbums} album${newAlbums === 1 ? '' : 's'}` : '',
+          newPresets > 0 ? `${newPresets} preset${newPresets === 1 ? '' : 's'}` : ''
+      ].filter(Boolean);
+      const summary = errors.length < files.length
+          ? `Imported ${photos} photo${photos === 1 ? '' : 's'}${extras.length > 0 ? ` with ${extras.join(' and ')}` : ''}.`
+          : '';
+      alert([summary, ...errors].filter(Boolean).join('\n'));
+      if (errors.length < files.length) navigate({ view: ViewMode.COLLECTION });
   };
 
   // --- Batch Import Logic ---
-  const handleBatchImport = useCallback(async (files: FileList) => {
+  const handleBatchImport = useCallback(async (files: ArrayLike<File>) => {
       const newItems: PhotoItem[] = [];
       
       for (let i = 0; i < files.length; i++) {
           const file = files[i];
           try {
-              const base64 = await fileToGenerativePart(file);
+              const { url, exif } = await importImageFile(file);
               newItems.push({
                   id: Date.now().toString() + Math.random().toString().slice(2,8) + i,
-                  originalUrl: `data:${file.type};base64,${base64}`,
+                  originalUrl: url,
                   name: file.name.split('.')[0] || `Photo ${collection.length + i + 1}`,
                   timestamp: Date.now(),
-                  settings: defaultSettings
+                  settings: defaultSettings,
+                  exif: exif ?? undefined
               });
           } catch (e) {
               console.error("Failed to import file", file.name, e);
@@ -179,7 +995,7 @@ const App: React.FC = () => {
       
       setCollection(prev => [...newItems, ...prev]);
       alert(`Imported ${newItems.length} photos to your collection.`);
-      setView(ViewMode.COLLECTION);
+      navigate({ view: ViewMode.COLLECTION });
   }, [collection.length]);
 
   const toggleExportSelection = (id: string) => {
@@ -195,41 +1011,231 @@ const App: React.FC = () => {
 
   // --- View Renderers ---
 
+  // --- Commands & shortcuts ---
+
+  // Previous or next photo in the collection, in the order the collection is shown
+  const stepPhoto = (step: 1 | -1) => {
+      const photos = filterCollection(collection, collectionFilter);
+      const index = photos.findIndex(item => item.id === editingId);
+      const next = index === -1 ? undefined : photos[index + step];
+      if (!next) return;
+      openPhoto(next);
+      navigate({ view: ViewMode.HOME, photoId: next.id }, { replace: true });
+  };
+
+  const editorReady = view === ViewMode.HOME && !!currentImage;
+  const isEditingCollectionPhoto = !!editingId && collection.some(item => item.id === editingId);
+  const commandHandlers: Record<CommandId, CommandHandler> = {
+      palette: { run: () => setShowPalette(true), enabled: true },
+      spell: { run: handleCastSpell, enabled: editorReady && !isProcessing },
+      variants: { run: handleSuggestVariants, enabled: editorReady && !isProcessing },
+      compare: { run: () => setShowCompare(prev => !prev), enabled: editorReady && !isCropping },
+      holdOriginal: { run: () => setHoldOriginal(true), release: () => setHoldOriginal(false), enabled: editorReady && !isCropping },
+      crop: { run: () => setIsCropping(prev => !prev), enabled: editorReady && !isProcessing },
+      maskOverlay: { run: () => setShowMaskOverlay(prev => !prev), enabled: editorReady && !!activeMask },
+      save: { run: handleSaveToCollection, enabled: editorReady },
+      exportImage: { run: handleSingleExport, enabled: editorReady },
+      exportSettings: { run: () => setShowExportOptions(true), enabled: true },
+      uploadNew: { run: handleResetImage, enabled: editorReady && !isProcessing },
+      undo: { run: handleUndo, enabled: editorReady && canUndo(currentHistory) },
+      redo: { run: handleRedo, enabled: editorReady && canRedo(currentHistory) },
+      copySettings: { run: () => setCopiedSettings(currentSettings), enabled: editorReady },
+      pasteSettings: { run: () => setSettingsTransfer({ target: 'current', sourceId: null }), enabled: editorReady && !!copiedSettings && !isProcessing },
+      previousPhoto: { run: () => stepPhoto(-1), enabled: editorReady && isEditingCollectionPhoto && !isProcessing },
+      nextPhoto: { run: () => stepPhoto(1), enabled: editorReady && isEditingCollectionPhoto && !isProcessing },
+      goHome: { run: () => navigate({ view: ViewMode.HOME, photoId: isEditingCollectionPhoto ? editingId ?? undefined : undefined }), enabled: view !== ViewMode.HOME },
+      goCollection: { run: () => navigate({ view: ViewMode.COLLECTION }), enabled: view !== ViewMode.COLLECTION },
+      goImport: { run: () => navigate({ view: ViewMode.IMPORT }), enabled: view !== ViewMode.IMPORT },
+      goExport: { run: () => navigate({ view: ViewMode.EXPORT }), enabled: view !== ViewMode.EXPORT },
+      goSettings: { run: () => navigate({ view: ViewMode.SETTINGS }), enabled: view !== ViewMode.SETTINGS }
+  };
+  const shortcuts = resolveShortcuts(preferences.shortcuts);
+
+  // The key listener is registered once and reads the latest handlers through refs
+  const commandHandlersRef = useRef(commandHandlers);
+  commandHandlersRef.current = commandHandlers;
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+      const held = new Map<string, CommandId>(); // Key -> hold command waiting for its key up
+      const releaseAll = () => {
+          held.forEach(id => commandHandlersRef.current[id].release?.());
+          held.clear();
+      };
+      const handleKeyDown = (e: KeyboardEvent) => {
+          const combo = comboFromEvent(e);
+          const command = combo ? findCommand(combo, shortcutsRef.current) : undefined;
+          if (!combo || !command || (isTextField(e.target, combo) && !command.inTextFields)) return;
+          const handler = commandHandlersRef.current[command.id];
+          if (!handler.enabled) return;
+          e.preventDefault();
+          if (command.hold) {
+              if (held.has(e.key)) return; // Auto-repeat
+              held.set(e.key, command.id);
+          }
+          handler.run();
+      };
+      const handleKeyUp = (e: KeyboardEvent) => {
+          const id = held.get(e.key);
+          if (!id) return;
+          held.delete(e.key);
+          commandHandlersRef.current[id].release?.();
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      window.addEventListener('keyup', handleKeyUp);
+      window.addEventListener('blur', releaseAll); // Key ups are lost while the window is in the background
+      return () => {
+          window.removeEventListener('keydown', handleKeyDown);
+          window.removeEventListener('keyup', handleKeyUp);
+          window.removeEventListener('blur', releaseAll);
+      };
+  }, []);
+
+  const paletteItems: PaletteItem[] = [
+      ...COMMANDS
+          .filter(command => command.id !== 'palette' && !command.hold && commandHandlers[command.id].enabled)
+          .map(command => ({
+              id: command.id,
+              label: command.label,
+              group: command.group,
+              shortcut: shortcuts[command.id][0],
+              run: commandHandlers[command.id].run
+          })),
+      ...(editorReady && !isProcessing ? presets : []).map(preset => ({
+          id: `preset-${preset.id}`,
+          label: preset.name,
+          group: 'Preset',
+          run: () => handleApplyPreset(preset)
+      }))
+  ];
+
   const renderHome = () => (
     <div className="flex flex-col h-full w-full max-w-6xl mx-auto p-4 md:p-6 space-y-4">
-      {/* Main Workspace */}
-      <div className="flex-1 flex flex-col items-center justify-center min-h-0 relative bg-dark-surface/50 rounded-3xl border border-dark-border overflow-hidden p-8">
+      <div className="flex-1 flex flex-col lg:flex-row gap-4 min-h-0">
+        {/* Main Workspace */}
+        <div className="flex-1 flex flex-col items-center justify-center min-h-0 relative bg-dark-surface/50 rounded-3xl border border-dark-border overflow-hidden p-8">
         
-        {!currentImage ? (
-          <ImageUploader onImageSelected={handleImageSelect} />
-        ) : (
-          <>
-            {/* New Photo Button */}
-            <button
-               onClick={handleResetImage}
-               className="absolute top-6 right-6 z-40 bg-black/50 hover:bg-banana-500 text-white px-4 py-2 rounded-lg backdrop-blur-md flex items-center gap-2 transition-colors border border-white/10 shadow-lg"
-            >
-                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" y1="3" x2="12" y2="15"/></svg>
-                Upload New
-            </button>
-
-            <div className="relative flex items-center justify-center max-w-full max-h-full shadow-2xl">
-                {/* Unified Viewer Component with Shadow applied to the wrapper which fits the image */}
-                <BeforeAfter 
-                    originalUrl={currentImage} 
-                    settings={currentSettings} 
-                    isCompareActive={showCompare}
-                />
+          {!currentImage ? (
+            <ImageUploader onImageSelected={handleImageSelect} />
+          ) : (
+            <>
+              {/* Live Histogram */}
+              <div className="absolute top-6 left-6 z-40 w-56 flex flex-col items-start gap-2">
+                  <button
+                     onClick={() => setShowHistogram(!showHistogram)}
+                     className="bg-black/50 hover:bg-banana-500 text-white text-xs px-3 py-1.5 rounded-lg backdrop-blur-md border border-white/10 transition-colors"
+                  >
+                      {showHistogram ? 'Hide Histogram' : 'Show Histogram'}
+                  </button>
+                  {showHistogram && <Histogram histogram={previewHistogram} className="w-full" />}
+              </div>
+
+              {/* New Photo Button */}
+              <button
+                 onClick={handleResetImage}
+                 className="absolute top-6 right-6 z-40 bg-black/50 hover:bg-banana-500 text-white px-4 py-2 rounded-lg backdrop-blur-md flex items-center gap-2 transition-colors border border-white/10 shadow-lg"
+              >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" y1="3" x2="12" y2="15"/></svg>
+                  Upload New
+              </button>
+
+              <div className="relative flex items-center justify-center max-w-full max-h-full shadow-2xl">
+                  {/* Unified Viewer Component with Shadow applied to the wrapper which fits the image */}
+                  {isCropping ? (
+                      <CropTool
+                          originalUrl={currentImage}
+                          settings={currentSettings}
+                          geometry={currentGeometry}
+                          onChange={setCurrentGeometry}
+                          onDone={() => setIsCropping(false)}
+                      />
+                  ) : (
+                      <BeforeAfter 
+                          originalUrl={currentImage} 
+                          settings={currentSettings} 
+                          geometry={currentGeometry}
+                          isCompareActive={showCompare && !activeMask}
+                          showOriginal={holdOriginal}
+                          onRender={handlePreviewRender}
+                          onSourceSize={handlePreviewSourceSize}
+                          overlay={activeMask && !holdOriginal && maskSource && (
+                              <MaskOverlay
+                                  adjustment={activeMask}
+                                  sourceWidth={maskSource.width}
+                                  sourceHeight={maskSource.height}
+                                  geometry={currentGeometry}
+                                  brush={brush}
+                                  showMask={showMaskOverlay}
+                                  onChange={handleMaskChange}
+                              />
+                          )}
+                      />
+                  )}
                 
-                {/* Overlay Loading State */}
-                {isProcessing && (
-                    <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center z-50 backdrop-blur-sm rounded-lg">
-                        <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-b-4 border-banana-500 mb-4"></div>
-                        <p className="text-banana-400 font-medium animate-pulse">Nano Banana is casting a spell...</p>
-                    </div>
-                )}
+                  {/* Overlay Loading State */}
+                  {isProcessing && (
+                      <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center z-50 backdrop-blur-sm rounded-lg">
+                          <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-b-4 border-banana-500 mb-4"></div>
+                          <p className="text-banana-400 font-medium animate-pulse">Nano Banana is casting a spell...</p>
+                      </div>
+                  )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Tone Panel - beside the viewer */}
+        {currentImage && (
+            <div className="w-full lg:w-72 shrink-0 bg-dark-surface p-4 rounded-3xl border border-dark-border self-start">
+                <CurveEditor 
+                    curves={currentSettings.curves}
+                    onChange={(curves, label) => handleManualChange({ ...currentSettings, curves }, label)}
+                    disabled={isProcessing}
+                />
+                <div className="mt-4 pt-4 border-t border-dark-border">
+                    <MaskPanel
+                        adjustments={currentSettings.localAdjustments}
+                        activeId={activeMask ? activeMask.id : null}
+                        onSelect={setActiveMaskId}
+                        onChange={handleLocalAdjustmentsChange}
+                        toSource={maskSource ? viewToMask(maskSource.width, maskSource.height, currentGeometry) : undefined}
+                        brush={brush}
+                        onBrushChange={setBrush}
+                        showMask={showMaskOverlay}
+                        onShowMaskChange={setShowMaskOverlay}
+                        disabled={isProcessing || isCropping}
+                    />
+                </div>
+                <div className="mt-4 pt-4 border-t border-dark-border">
+                    <LutPanel 
+                        luts={luts}
+                        lutId={currentSettings.lutId}
+                        intensity={currentSettings.lutIntensity}
+                        onSelect={(lutId) => handleManualChange({ ...currentSettings, lutId }, 'LUT')}
+                        onIntensityChange={(lutIntensity) => handleManualChange({ ...currentSettings, lutIntensity }, 'LUT intensity')}
+                        onImport={handleImportLut}
+                        onDelete={handleDeleteLut}
+                        onBake={handleBakeLut}
+                        disabled={isProcessing}
+                    />
+                </div>
+                <div className="mt-4 pt-4 border-t border-dark-border">
+                    <PresetPanel 
+                        presets={presets}
+                        canSave={!!currentImage}
+                        onApply={handleApplyPreset}
+                        onSave={handleSavePreset}
+                        onDelete={handleDeletePreset}
+                        onImport={handleImportPresets}
+                        onExport={handleExportPresets}
+                        disabled={isProcessing}
+                    />
+                </div>
+                <div className="mt-4 pt-4 border-t border-dark-border">
+                    <PhotoInfoPanel exif={currentExif} />
+                </div>
             </div>
-          </>
         )}
       </div>
 
@@ -293,6 +1299,15 @@ const App: React.FC = () => {
 
                   {/* Square Buttons (Tools) */}
                   <div className="flex gap-3 justify-center">
+                      <button 
+                          onClick={handleSuggestVariants}
+                          disabled={isProcessing || !currentImage}
+                          title={`Suggest ${LOOK_VARIANT_COUNT} different looks`}
+                          className="p-0 w-[56px] h-[56px] bg-black/30 hover:bg-dark-border text-gray-300 hover:text-white rounded-xl border border-dark-border transition-all flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                          <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="7" height="7" rx="1"/><rect x="14" y="3" width="7" height="7" rx="1"/><rect x="3" y="14" width="7" height="7" rx="1"/><rect x="14" y="14" width="7" height="7" rx="1"/></svg>
+                      </button>
+
                       <button 
                           onClick={() => setShowCompare(!showCompare)}
                           disabled={!currentImage}
@@ -306,6 +1321,19 @@ const App: React.FC = () => {
                           <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M2 12h20"/><path d="M2 12l5-5"/><path d="M2 12l5 5"/><path d="M22 12l-5-5"/><path d="M22 12l-5 5"/></svg>
                       </button>
 
+                      <button 
+                          onClick={() => setIsCropping(!isCropping)}
+                          disabled={!currentImage || isProcessing}
+                          title={isCropping ? "Done Cropping" : "Crop & Rotate"}
+                          className={`p-0 w-[56px] h-[56px] rounded-xl border transition-all flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed
+                          ${isCropping 
+                              ? 'bg-white text-black border-white shadow-[0_0_15px_rgba(255,255,255,0.3)]' 
+                              : 'bg-black/30 text-gray-300 border-dark-border hover:bg-dark-border hover:text-white'
+                          }`}
+                      >
+                          <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M6 2v14a2 2 0 0 0 2 2h14"/><path d="M18 22V8a2 2 0 0 0-2-2H2"/></svg>
+                      </button>
+
                       <button 
                           onClick={handleSaveToCollection}
                           disabled={!currentImage}
@@ -315,10 +1343,18 @@ const App: React.FC = () => {
                           <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"/><polyline points="17 21 17 13 7 13 7 21"/><polyline points="7 3 7 8 15 8"/></svg>
                       </button>
 
+                      <button 
+                          onClick={() => setShowExportOptions(true)}
+                          title="Export Settings"
+                          className="p-0 w-[56px] h-[56px] bg-black/30 hover:bg-dark-border text-gray-300 hover:text-white rounded-xl border border-dark-border transition-all flex items-center justify-center"
+                      >
+                          <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="4" y1="21" x2="4" y2="14"/><line x1="4" y1="10" x2="4" y2="3"/><line x1="12" y1="21" x2="12" y2="12"/><line x1="12" y1="8" x2="12" y2="3"/><line x1="20" y1="21" x2="20" y2="16"/><line x1="20" y1="12" x2="20" y2="3"/><line x1="1" y1="14" x2="7" y2="14"/><line x1="9" y1="8" x2="15" y2="8"/><line x1="17" y1="16" x2="23" y2="16"/></svg>
+                      </button>
+
                       <button 
                           onClick={handleSingleExport}
                           disabled={!currentImage}
-                          title="Export Image"
+                          title={`Export Image (${describeExportOptions(preferences.exportOptions)})`}
                           className="p-0 w-[56px] h-[56px] bg-black/30 hover:bg-dark-border text-gray-300 hover:text-white rounded-xl border border-dark-border transition-all flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                           <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" y1="15" x2="12" y2="3"/></svg>
@@ -326,66 +1362,280 @@ const App: React.FC = () => {
                   </div>
               </div>
 
-              {aiReasoning && (
+              {/* The latest reply already shows in the refinement thread */}
+              {aiReasoning && aiReasoning !== refinementThread[refinementThread.length - 1]?.reasoning && (
                   <div className="p-3 bg-black/20 rounded-lg text-sm text-gray-300 italic border-l-2 border-banana-500">
                       "{aiReasoning}"
                   </div>
               )}
+
+              {currentImage && lookVariants.length > 0 && (
+                  <LookVariantStrip
+                      originalUrl={currentImage}
+                      variants={lookVariants}
+                      baseSettings={currentSettings}
+                      geometry={currentGeometry}
+                      activeIndex={activeVariant}
+                      onApply={handleApplyVariant}
+                      onSavePreset={handleSaveVariantAsPreset}
+                      onClose={() => setLookVariants([])}
+                      disabled={isProcessing}
+                  />
+              )}
+
+              {currentImage && (
+                  <RefinementChat
+                      turns={refinementThread}
+                      onSend={handleRefine}
+                      onClear={() => setRefinementThread([])}
+                      disabled={isProcessing}
+                  />
+              )}
+
+              {/* Manual Adjustments & History */}
+              <div className="pt-4 border-t border-dark-border grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <div className="md:col-span-2 space-y-3">
+                      <div className="flex justify-end gap-3 text-xs">
+                          <button
+                              onClick={() => setCopiedSettings(currentSettings)}
+                              disabled={!currentImage}
+                              className="text-gray-400 hover:text-banana-400 disabled:opacity-50 disabled:hover:text-gray-400"
+                          >
+                              Copy Settings
+                          </button>
+                          <button
+                              onClick={() => setSettingsTransfer({ target: 'current', sourceId: null })}
+                              disabled={!currentImage || !copiedSettings || isProcessing}
+                              className="text-gray-400 hover:text-banana-400 disabled:opacity-50 disabled:hover:text-gray-400"
+                          >
+                              Paste Settings...
+                          </button>
+                      </div>
+                      <AdjustmentPanel 
+                          settings={currentSettings}
+                          onChange={handleManualChange}
+                          disabled={!currentImage || isProcessing}
+                      />
+                  </div>
+                  <HistoryPanel 
+                      history={currentHistory}
+                      onJump={handleJumpToHistory}
+                      onUndo={handleUndo}
+                      onRedo={handleRedo}
+                      disabled={!currentImage || isProcessing}
+                  />
+              </div>
           </div>
       </div>
     </div>
   );
 
-  const renderCollection = () => (
+  const renderCollection = () => {
+    const visibleCollection = filterCollection(collection, collectionFilter);
+    const albumCounts: Record<string, number> = {};
+    collection.forEach(item => item.albumIds?.forEach(id => { albumCounts[id] = (albumCounts[id] ?? 0) + 1; }));
+    const filterAlbum = albums.find(album => album.id === collectionFilter.albumId);
+
+    return (
     <div className="p-8 w-full max-w-6xl mx-auto">
         <h2 className="text-3xl font-bold text-white mb-6">My Collection</h2>
+        {collection.length > 0 && (
+            <CollectionToolbar
+                filter={collectionFilter}
+                onChange={handleCollectionFilterChange}
+                albums={albums}
+                albumCounts={albumCounts}
+                onCreateAlbum={handleCreateAlbum}
+                onDeleteAlbum={handleDeleteAlbum}
+                shownCount={visibleCollection.length}
+                totalCount={collection.length}
+            />
+        )}
+        {showBatchPanel && (
+            <BatchSpellPanel
+                items={batchItems}
+                isRunning={isBatchRunning}
+                selectionCount={collectionSelection.size}
+                prompt={batchPrompt}
+                onPromptChange={setBatchPrompt}
+                refImage={batchRefImage}
+                onRefImageSelect={handleBatchRefImageSelect}
+                onRefImageClear={() => setBatchRefImage(null)}
+                onStart={handleStartBatchSpell}
+                onCancel={handleCancelBatch}
+                onRetryFailed={handleRetryFailedBatch}
+                onClose={() => { setShowBatchPanel(false); setBatchItems([]); }}
+            />
+        )}
+        {collectionSelection.size > 0 && (
+            <div className="flex flex-wrap items-center gap-3 mb-6 bg-dark-surface border border-dark-border rounded-xl px-4 py-3">
+                <span className="text-sm text-white font-medium">{collectionSelection.size} selected</span>
+                <select
+                    value=""
+                    onChange={(e) => handleApplyPresetToSelection(e.target.value)}
+                    disabled={presets.length === 0}
+                    className="bg-black/30 border border-dark-border rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-banana-500 disabled:opacity-50"
+                >
+                    <option value="" disabled>{presets.length === 0 ? 'No presets saved' : 'Apply preset...'}</option>
+                    {presets.map(preset => (
+                        <option key={preset.id} value={preset.id}>{preset.name}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => setShowBatchPanel(true)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium bg-banana-500/10 text-banana-400 hover:bg-banana-500/20"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m12 3-1.912 5.813a2 2 0 0 1-1.275 1.275L3 12l5.813 1.912a2 2 0 0 1 1.275 1.275L12 21l1.912-5.813a2 2 0 0 1 1.275-1.275L21 12l-5.813-1.912a2 2 0 0 1-1.275-1.275L12 3Z"/></svg>
+                    Cast a Spell
+                </button>
+                <button
+                    onClick={handleOpenSyncSettings}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium bg-black/30 text-gray-300 hover:text-white border border-dark-border hover:border-banana-500"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="23 4 23 10 17 10"/><polyline points="1 20 1 14 7 14"/><path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15"/></svg>
+                    Sync Settings
+                </button>
+                <div className="flex items-center gap-2 px-3 py-1 rounded-lg bg-black/30 border border-dark-border">
+                    <StarRating rating={0} onChange={(rating) => handleRatePhotos(collectionSelection, rating)} />
+                    <span className="w-px h-4 bg-dark-border" />
+                    <LabelPicker label={null} onChange={(label) => handleLabelPhotos(collectionSelection, label)} />
+                    <button
+                        onClick={() => { handleRatePhotos(collectionSelection, 0); handleLabelPhotos(collectionSelection, null); }}
+                        title="Clear ratings and labels"
+                        className="text-xs text-gray-500 hover:text-white"
+                    >
+                        Clear
+                    </button>
+                </div>
+                <select
+                    value=""
+                    onChange={(e) => handleAddSelectionToAlbum(e.target.value)}
+                    disabled={albums.length === 0}
+                    className="bg-black/30 border border-dark-border rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-banana-500 disabled:opacity-50"
+                >
+                    <option value="" disabled>{albums.length === 0 ? 'No albums yet' : 'Add to album...'}</option>
+                    {albums.map(album => (
+                        <option key={album.id} value={album.id}>{album.name}</option>
+                    ))}
+                </select>
+                {filterAlbum && (
+                    <button
+                        onClick={() => handleRemoveSelectionFromAlbum(filterAlbum.id)}
+                        className="text-sm text-gray-300 hover:text-white"
+                    >
+                        Remove from "{filterAlbum.name}"
+                    </button>
+                )}
+                <input
+                    type="text"
+                    placeholder="Add tags"
+                    value={bulkTags}
+                    onChange={(e) => setBulkTags(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleAddTagsToSelection(); }}
+                    className="w-28 bg-black/30 border border-dark-border rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-banana-500"
+                />
+                <button
+                    onClick={() => handleDeletePhotos(collectionSelection)}
+                    className="px-3 py-1.5 rounded-lg text-sm font-medium text-red-400 hover:bg-red-500/10"
+                >
+                    Delete
+                </button>
+                <div className="ml-auto flex gap-3">
+                    <button
+                        onClick={() => setCollectionSelection(new Set([...Array.from(collectionSelection), ...visibleCollection.map(item => item.id)]))}
+                        className="text-sm text-gray-400 hover:text-white"
+                    >
+                        Select All Shown
+                    </button>
+                    <button 
+                        onClick={() => setCollectionSelection(new Set())}
+                        className="text-sm text-gray-400 hover:text-white"
+                    >
+                        Clear Selection
+                    </button>
+                </div>
+            </div>
+        )}
         {collection.length === 0 ? (
             <div className="text-center py-20 text-gray-500">
                 <p>No photos saved yet.</p>
                 <button 
-                    onClick={() => setView(ViewMode.HOME)} 
+                    onClick={() => navigate({ view: ViewMode.HOME })} 
                     className="mt-4 text-banana-500 hover:underline"
                 >
                     Start Editing
                 </button>
             </div>
+        ) : visibleCollection.length === 0 ? (
+            <p className="text-center py-20 text-gray-500">No photos match these filters.</p>
         ) : (
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                {collection.map(item => (
-                    <div key={item.id} className="bg-dark-surface rounded-xl overflow-hidden border border-dark-border group relative flex flex-col">
+                {visibleCollection.map(item => (
+                    <div key={item.id} className={`bg-dark-surface rounded-xl overflow-hidden border group relative flex flex-col ${collectionSelection.has(item.id) ? 'border-banana-500 ring-2 ring-banana-500/50' : 'border-dark-border'}`}>
                         <div className="aspect-square relative overflow-hidden bg-black/20">
-                             <img 
-                                src={item.originalUrl} 
-                                alt={item.name} 
-                                className="w-full h-full object-cover"
-                                style={{
-                                    filter: `brightness(${item.settings.brightness}%) contrast(${item.settings.contrast}%) saturate(${item.settings.saturation}%) sepia(${item.settings.sepia}%) grayscale(${item.settings.grayscale}%) hue-rotate(${item.settings.hueRotate}deg) blur(${item.settings.blur}px)`
-                                }}
-                             />
+                             <LazyTile className="w-full h-full">
+                                 <ProcessedImage 
+                                    src={item.originalUrl} 
+                                    settings={item.settings}
+                                    geometry={item.geometry}
+                                    maxSize={THUMBNAIL_SIZE}
+                                    alt={item.name} 
+                                    className="w-full h-full object-cover"
+                                 />
+                             </LazyTile>
                              <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
                                  <button 
                                     className="p-3 bg-white text-black rounded-full hover:bg-banana-400 font-medium flex items-center gap-2"
-                                    onClick={() => {
-                                        setCurrentImage(item.originalUrl);
-                                        setCurrentSettings(item.settings);
-                                        setView(ViewMode.HOME);
-                                    }}
+                                    onClick={() => handleOpenForEditing(item)}
                                  >
                                     <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 20h9"/><path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"/></svg>
                                     Edit
                                  </button>
+                                 <button 
+                                    className="p-3 bg-black/60 text-white rounded-full hover:bg-banana-500"
+                                    onClick={() => setCopiedSettings(item.settings)}
+                                    title="Copy settings"
+                                 >
+                                    <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="9" y="9" width="13" height="13" rx="2" ry="2"/><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/></svg>
+                                 </button>
+                                 <button 
+                                    className="p-3 bg-black/60 text-white rounded-full hover:bg-red-500"
+                                    onClick={() => handleDeletePhotos(new Set([item.id]))}
+                                    title="Delete photo"
+                                 >
+                                    <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"/><path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6"/><path d="M10 11v6"/><path d="M14 11v6"/><path d="M9 6V4a1 1 0 0 1 1-1h4a1 1 0 0 1 1 1v2"/></svg>
+                                 </button>
                              </div>
+                             <button
+                                onClick={() => toggleCollectionSelection(item.id)}
+                                title={collectionSelection.has(item.id) ? "Deselect" : "Select"}
+                                className={`absolute top-2 left-2 w-6 h-6 rounded-full border-2 flex items-center justify-center transition-opacity ${collectionSelection.has(item.id) ? 'bg-banana-500 border-banana-500' : 'bg-black/40 border-white opacity-0 group-hover:opacity-100'}`}
+                             >
+                                 {collectionSelection.has(item.id) && <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><polyline points="20 6 9 17 4 12"/></svg>}
+                             </button>
                         </div>
-                        <div className="p-3">
-                            <p className="text-white font-medium truncate">{item.name}</p>
-                            <p className="text-xs text-gray-500">{new Date(item.timestamp).toLocaleDateString()}</p>
-                        </div>
+                        <PhotoLibraryDetails
+                            item={item}
+                            onRename={(name) => handleRenamePhoto(item.id, name)}
+                            onRate={(rating) => handleRatePhotos(new Set([item.id]), rating)}
+                            onLabel={(label) => handleLabelPhotos(new Set([item.id]), label)}
+                            onTagsChange={(tags) => updatePhotos(new Set([item.id]), photo => ({ ...photo, tags }))}
+                        />
                     </div>
                 ))}
             </div>
         )}
     </div>
-  );
+    );
+  };
+
+  // Project files go through their own import; everything else is treated as an image
+  const handleImportFiles = (files: FileList) => {
+      const all = Array.from(files);
+      const projects = all.filter(file => file.name.toLowerCase().endsWith(PROJECT_FILE_EXTENSION));
+      if (projects.length > 0) handleImportProjects(projects);
+      if (projects.length < all.length) handleBatchImport(all.filter(file => !projects.includes(file)));
+  };
 
   const renderImport = () => (
       <div className="flex flex-col items-center justify-center h-full p-8 max-w-4xl mx-auto w-full">
@@ -398,15 +1648,15 @@ const App: React.FC = () => {
              onDrop={(e) => {
                  e.preventDefault();
                  if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-                     handleBatchImport(e.dataTransfer.files);
+                     handleImportFiles(e.dataTransfer.files);
                  }
              }}
            >
               <input 
                 type="file" 
-                accept="image/*" 
+                accept={`image/*,${PROJECT_FILE_EXTENSION}`} 
                 multiple
-                onChange={(e) => e.target.files && handleBatchImport(e.target.files)} 
+                onChange={(e) => e.target.files && handleImportFiles(e.target.files)} 
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
               />
               <div className="z-0 flex flex-col items-center space-y-4 group-hover:scale-105 transition-transform duration-300">
@@ -415,6 +1665,7 @@ const App: React.FC = () => {
                 </div>
                 <h3 className="text-2xl font-bold text-white">Drop photos here</h3>
                 <p className="text-gray-400">or click to browse multiple files</p>
+                <p className="text-xs text-gray-500">{PROJECT_FILE_EXTENSION} project files are merged into your collection</p>
               </div>
            </div>
       </div>
@@ -425,19 +1676,71 @@ const App: React.FC = () => {
         <div className="flex items-center justify-between mb-6">
             <div>
                 <h2 className="text-3xl font-bold text-white">Batch Export</h2>
-                <p className="text-gray-400">Select photos to download them.</p>
+                <p className="text-gray-400">Select photos to download them as a single ZIP.</p>
             </div>
-            {exportSelection.size > 0 && (
-                <button 
-                    onClick={handleBatchExport}
-                    className="bg-banana-500 hover:bg-banana-600 text-white px-6 py-3 rounded-xl font-bold flex items-center gap-2 shadow-lg transition-colors"
+            <div className="flex items-center gap-4">
+                <button
+                    onClick={() => setShowExportOptions(true)}
+                    disabled={!!exportProgress}
+                    className="flex items-center gap-2 px-4 py-3 rounded-xl border border-dark-border text-sm text-gray-300 hover:text-white hover:border-banana-500 disabled:opacity-50"
+                    title="Export settings"
                 >
-                    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" y1="15" x2="12" y2="3"/></svg>
-                    Download ({exportSelection.size})
+                    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="4" y1="21" x2="4" y2="14"/><line x1="4" y1="10" x2="4" y2="3"/><line x1="12" y1="21" x2="12" y2="12"/><line x1="12" y1="8" x2="12" y2="3"/><line x1="20" y1="21" x2="20" y2="16"/><line x1="20" y1="12" x2="20" y2="3"/><line x1="1" y1="14" x2="7" y2="14"/><line x1="9" y1="8" x2="15" y2="8"/><line x1="17" y1="16" x2="23" y2="16"/></svg>
+                    {describeExportOptions(preferences.exportOptions)}
                 </button>
-            )}
+                {exportSelection.size > 0 && (
+                    <>
+                        <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer" title="Add manifest.json with each photo's settings and AI reasoning">
+                            <input
+                                type="checkbox"
+                                checked={includeManifest}
+                                onChange={(e) => setIncludeManifest(e.target.checked)}
+                                disabled={!!exportProgress}
+                                className="accent-banana-500"
+                            />
+                            Include manifest
+                        </label>
+                        <button
+                            onClick={handleExportProject}
+                            disabled={!!exportProgress}
+                            className="px-4 py-3 rounded-xl border border-dark-border text-sm text-gray-300 hover:text-white hover:border-banana-500 disabled:opacity-50"
+                            title={`Originals, edits, albums and presets in one ${PROJECT_FILE_EXTENSION} file for opening elsewhere`}
+                        >
+                            Save Project
+                        </button>
+                        <button
+                            onClick={handleExportSidecars}
+                            disabled={!!exportProgress}
+                            className="px-4 py-3 rounded-xl border border-dark-border text-sm text-gray-300 hover:text-white hover:border-banana-500 disabled:opacity-50"
+                            title="Settings only, as one .xmp sidecar per photo"
+                        >
+                            XMP Sidecars
+                        </button>
+                        <button 
+                            onClick={handleBatchExport}
+                            disabled={!!exportProgress}
+                            className="bg-banana-500 hover:bg-banana-600 text-white px-6 py-3 rounded-xl font-bold flex items-center gap-2 shadow-lg transition-colors disabled:opacity-60 disabled:hover:bg-banana-500"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" y1="15" x2="12" y2="3"/></svg>
+                            {exportProgress ? 'Building ZIP...' : `Download ZIP (${exportSelection.size})`}
+                        </button>
+                    </>
+                )}
+            </div>
         </div>
 
+        {exportProgress && (
+            <div className="mb-6">
+                <div className="flex justify-between text-xs text-gray-400 mb-1">
+                    <span>Exporting photos</span>
+                    <span>{exportProgress.done} of {exportProgress.total}</span>
+                </div>
+                <div className="h-2 bg-black/40 rounded-full overflow-hidden">
+                    <div className="h-full bg-banana-500 transition-all duration-300" style={{ width: `${exportProgress.total > 0 ? (exportProgress.done / exportProgress.total) * 100 : 0}%` }}></div>
+                </div>
+            </div>
+        )}
+
         {collection.length === 0 ? (
             <div className="flex-1 flex items-center justify-center text-gray-500">
                 <p>No photos in collection.</p>
@@ -452,14 +1755,16 @@ const App: React.FC = () => {
                             onClick={() => toggleExportSelection(item.id)}
                             className={`relative aspect-square rounded-lg overflow-hidden cursor-pointer border-2 transition-all ${isSelected ? 'border-banana-500 ring-2 ring-banana-500/50' : 'border-transparent hover:border-gray-600'}`}
                         >
-                             <img 
-                                src={item.originalUrl} 
-                                alt={item.name} 
-                                className="w-full h-full object-cover"
-                                style={{
-                                    filter: `brightness(${item.settings.brightness}%) contrast(${item.settings.contrast}%) saturate(${item.settings.saturation}%) sepia(${item.settings.sepia}%) grayscale(${item.settings.grayscale}%) hue-rotate(${item.settings.hueRotate}deg) blur(${item.settings.blur}px)`
-                                }}
-                             />
+                             <LazyTile className="w-full h-full">
+                                 <ProcessedImage 
+                                    src={item.originalUrl} 
+                                    settings={item.settings}
+                                    geometry={item.geometry}
+                                    maxSize={THUMBNAIL_SIZE}
+                                    alt={item.name} 
+                                    className="w-full h-full object-cover"
+                                 />
+                             </LazyTile>
                              <div className={`absolute top-2 right-2 w-6 h-6 rounded-full border-2 flex items-center justify-center ${isSelected ? 'bg-banana-500 border-banana-500' : 'bg-black/40 border-white'}`}>
                                  {isSelected && <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><polyline points="20 6 9 17 4 12"/></svg>}
                              </div>
@@ -475,7 +1780,7 @@ const App: React.FC = () => {
     <div className="min-h-screen bg-dark-bg flex font-sans">
       <Sidebar 
         currentView={view} 
-        setView={setView} 
+        openPhotoId={editingId}
         isOpen={isSidebarOpen} 
         toggleOpen={() => setSidebarOpen(!isSidebarOpen)} 
         isCollapsed={isSidebarCollapsed}
@@ -483,11 +1788,51 @@ const App: React.FC = () => {
       />
       
       <main className={`flex-1 relative min-h-screen flex flex-col pt-16 md:pt-0 transition-all duration-300 ease-in-out ${isSidebarCollapsed ? 'md:ml-0' : 'md:ml-64'}`}>
+        {storageError && (
+            <div className="mx-4 mt-4 md:mx-6 flex items-center justify-between gap-4 bg-red-500/10 border border-red-500/30 text-red-300 text-sm px-4 py-3 rounded-xl">
+                <span>
+                    {storageError.kind === 'quota'
+                        ? "Browser storage is full. New changes are only kept in this tab until you free up space by exporting and removing photos."
+                        : `Your work can't be saved in this browser: ${storageError.message}`}
+                </span>
+                <button onClick={() => setStorageError(null)} className="text-red-300 hover:text-white shrink-0" title="Dismiss">
+                    <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+                </button>
+            </div>
+        )}
         {view === ViewMode.HOME && renderHome()}
         {view === ViewMode.COLLECTION && renderCollection()}
         {view === ViewMode.IMPORT && renderImport()}
         {view === ViewMode.EXPORT && renderExport()}
+        {view === ViewMode.SETTINGS && <SettingsView ai={preferences.ai} onAiChange={handleAiPreferencesChange} shortcuts={preferences.shortcuts} onShortcutsChange={handleShortcutsChange} />}
       </main>
+
+      {showPalette && <CommandPalette items={paletteItems} onClose={() => setShowPalette(false)} />}
+
+      {settingsTransfer && (
+          <PasteSettingsDialog
+              title={settingsTransfer.target === 'current' ? 'Paste Settings' : `Sync Settings to ${collectionSelection.size} Photo${collectionSelection.size === 1 ? '' : 's'}`}
+              confirmLabel={settingsTransfer.target === 'current' ? 'Paste' : 'Sync'}
+              initialKeys={transferKeys}
+              sources={settingsTransfer.target === 'selection' ? collection : undefined}
+              sourceId={settingsTransfer.sourceId}
+              hasCopiedSettings={!!copiedSettings}
+              onSourceChange={(sourceId) => setSettingsTransfer({ ...settingsTransfer, sourceId })}
+              onConfirm={handleConfirmTransfer}
+              onClose={() => setSettingsTransfer(null)}
+          />
+      )}
+
+      {showExportOptions && (
+          <ExportOptionsDialog
+              options={preferences.exportOptions}
+              profiles={preferences.exportProfiles}
+              onChange={handleExportOptionsChange}
+              onSaveProfile={handleSaveExportProfile}
+              onDeleteProfile={handleDeleteExportProfile}
+              onClose={() => setShowExportOptions(false)}
+          />
+      )}
     </div>
   );
 };
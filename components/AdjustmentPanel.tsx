@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { FilterSettings } from '../types';
+import { SETTING_FIELDS, SettingField, clampSetting, defaultSettings } from '../services/filterSettings';
+
+interface AdjustmentPanelProps {
+  settings: FilterSettings;
+  onChange: (settings: FilterSettings, changeLabel: string) => void;
+  disabled?: boolean;
+}
+
+interface AdjustmentSliderProps {
+  field: SettingField;
+  value: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+  idPrefix?: string; // Keeps element IDs unique when the same field appears in another panel
+}
+
+export const AdjustmentSlider: React.FC<AdjustmentSliderProps> = ({ field, value, onChange, disabled, idPrefix = 'adjust' }) => {
+  // Typed text is kept locally so partial input like "-" or "1." isn't clamped mid-edit
+  const [draft, setDraft] = useState(String(value));
+  const defaultValue = defaultSettings[field.key];
+  const isDefault = value === defaultValue;
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commitDraft = () => {
+    const parsed = parseFloat(draft);
+    if (Number.isFinite(parsed)) {
+      onChange(clampSetting(field, parsed));
+    } else {
+      setDraft(String(value));
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <label htmlFor={`${idPrefix}-${field.key}`} className="text-xs font-medium text-gray-400">
+          {field.label}
+        </label>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onChange(defaultValue)}
+            disabled={disabled || isDefault}
+            title={`Reset ${field.label}`}
+            className="p-1 text-gray-500 hover:text-banana-400 disabled:opacity-0 transition-opacity"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8"/><path d="M3 3v5h5"/></svg>
+          </button>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={draft}
+            disabled={disabled}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commitDraft}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitDraft();
+              if (e.key === 'Escape') setDraft(String(value));
+            }}
+            className="w-14 bg-black/30 border border-dark-border rounded px-1.5 py-0.5 text-xs text-right text-white focus:outline-none focus:border-banana-500"
+          />
+          {field.unit && <span className="text-xs text-gray-500 w-4">{field.unit}</span>}
+        </div>
+      </div>
+      <input
+        id={`${idPrefix}-${field.key}`}
+        type="range"
+        min={field.min}
+        max={field.max}
+        step={field.step}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        onDoubleClick={() => onChange(defaultValue)}
+        className="w-full accent-banana-500 disabled:opacity-50"
+      />
+    </div>
+  );
+};
+
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ settings, onChange, disabled }) => {
+  const isAllDefault = SETTING_FIELDS.every(field => settings[field.key] === defaultSettings[field.key]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-white">Adjustments</h4>
+        <button
+          onClick={() => onChange({ ...settings, ...defaultSettings }, 'Reset all')}
+          disabled={disabled || isAllDefault}
+          className="text-xs text-gray-400 hover:text-banana-400 disabled:opacity-50 disabled:hover:text-gray-400"
+        >
+          Reset All
+        </button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+        {SETTING_FIELDS.map(field => (
+          <AdjustmentSlider
+            key={field.key}
+            field={field}
+            value={settings[field.key]}
+            disabled={disabled}
+            onChange={(value) => onChange({ ...settings, [field.key]: value }, field.label)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AdjustmentPanel;
@@ -0,0 +1,148 @@
+import React from 'react';
+import { BatchJobItem, BatchItemStatus } from '../types';
+
+interface BatchSpellPanelProps {
+  items: BatchJobItem[];
+  isRunning: boolean;
+  selectionCount: number;
+  prompt: string;
+  onPromptChange: (prompt: string) => void;
+  refImage: string | null;
+  onRefImageSelect: (file: File) => void;
+  onRefImageClear: () => void;
+  onStart: () => void;
+  onCancel: () => void;
+  onRetryFailed: () => void;
+  onClose: () => void;
+}
+
+const statusStyles: Record<BatchItemStatus, { label: string; className: string }> = {
+  pending: { label: 'Queued', className: 'text-gray-400' },
+  running: { label: 'Casting...', className: 'text-banana-400 animate-pulse' },
+  done: { label: 'Done', className: 'text-green-400' },
+  error: { label: 'Failed', className: 'text-red-400' },
+  cancelled: { label: 'Cancelled', className: 'text-gray-500' },
+};
+
+const BatchSpellPanel: React.FC<BatchSpellPanelProps> = ({
+  items,
+  isRunning,
+  selectionCount,
+  prompt,
+  onPromptChange,
+  refImage,
+  onRefImageSelect,
+  onRefImageClear,
+  onStart,
+  onCancel,
+  onRetryFailed,
+  onClose
+}) => {
+  const finished = items.filter(item => item.status === 'done' || item.status === 'error' || item.status === 'cancelled').length;
+  const failed = items.filter(item => item.status === 'error' || item.status === 'cancelled').length;
+  const progress = items.length > 0 ? (finished / items.length) * 100 : 0;
+
+  return (
+    <div className="bg-dark-surface border border-dark-border rounded-2xl p-6 mb-6 space-y-4 shadow-lg">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-semibold text-white flex items-center gap-2">
+          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="#f59e0b" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m12 3-1.912 5.813a2 2 0 0 1-1.275 1.275L3 12l5.813 1.912a2 2 0 0 1 1.275 1.275L12 21l1.912-5.813a2 2 0 0 1 1.275-1.275L21 12l-5.813-1.912a2 2 0 0 1-1.275-1.275L12 3Z"/></svg>
+          Batch Spell
+        </h3>
+        <button onClick={onClose} disabled={isRunning} className="text-gray-400 hover:text-white disabled:opacity-40" title="Close">
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+        </button>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="flex-1 relative">
+          <input
+            type="text"
+            placeholder="Describe a style for every selected photo (leave empty to auto-enhance)"
+            className="w-full bg-black/30 border border-dark-border rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-banana-500 transition-colors text-white pr-10 disabled:opacity-50"
+            value={prompt}
+            disabled={isRunning}
+            onChange={(e) => onPromptChange(e.target.value)}
+          />
+          <label className="absolute right-2 top-2 p-1 bg-dark-surface hover:bg-white/10 rounded cursor-pointer text-gray-400 hover:text-white" title="Add Reference Image">
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="18" height="18" rx="2" ry="2"/><circle cx="8.5" cy="8.5" r="1.5"/><polyline points="21 15 16 10 5 21"/></svg>
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              disabled={isRunning}
+              onChange={(e) => {
+                if (e.target.files && e.target.files[0]) onRefImageSelect(e.target.files[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+        {refImage && (
+          <div className="h-11 w-11 relative shrink-0">
+            <img src={refImage} className="h-full w-full rounded-lg object-cover border border-banana-500" alt="ref" />
+            <button
+              onClick={onRefImageClear}
+              disabled={isRunning}
+              className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full p-0.5"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+            </button>
+          </div>
+        )}
+        {isRunning ? (
+          <button
+            onClick={onCancel}
+            className="px-6 py-3 rounded-xl font-bold bg-red-500/80 hover:bg-red-500 text-white transition-colors"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={onStart}
+            disabled={selectionCount === 0}
+            className="px-6 py-3 rounded-xl font-bold bg-gradient-to-r from-banana-500 to-banana-600 hover:from-banana-400 hover:to-banana-500 text-white shadow-lg shadow-banana-500/20 transition-all disabled:opacity-50 disabled:shadow-none"
+          >
+            Cast on {selectionCount} photo{selectionCount === 1 ? '' : 's'}
+          </button>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div className="space-y-3">
+          <div>
+            <div className="flex justify-between text-xs text-gray-400 mb-1">
+              <span>{finished} of {items.length} finished</span>
+              {failed > 0 && !isRunning && (
+                <button onClick={onRetryFailed} className="text-banana-400 hover:underline">
+                  Retry {failed} failed
+                </button>
+              )}
+            </div>
+            <div className="h-2 bg-black/40 rounded-full overflow-hidden">
+              <div className="h-full bg-banana-500 transition-all duration-300" style={{ width: `${progress}%` }}></div>
+            </div>
+          </div>
+
+          <ul className="max-h-56 overflow-y-auto divide-y divide-dark-border text-sm">
+            {items.map(item => {
+              const status = statusStyles[item.status];
+              return (
+                <li key={item.photoId} className="py-2 flex items-start gap-3">
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-gray-200 truncate">{item.name}</span>
+                    {item.error && <span className="block text-xs text-red-300">{item.error}</span>}
+                    {item.reasoning && <span className="block text-xs text-gray-500 italic truncate">"{item.reasoning}"</span>}
+                  </span>
+                  <span className={`shrink-0 text-xs font-medium ${status.className}`}>{status.label}</span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchSpellPanel;
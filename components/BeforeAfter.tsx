@@ -1,21 +1,27 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { FilterSettings } from '../types';
+import { FilterSettings, Geometry } from '../types';
+import { defaultSettings } from '../services/filterSettings';
+import ProcessedImage from './ProcessedImage';
+
+// Long edge of the preview render; export always renders at full resolution
+export const PREVIEW_SIZE = 1600;
 
 interface BeforeAfterProps {
   originalUrl: string;
   settings: FilterSettings;
+  geometry?: Geometry;
   isCompareActive: boolean;
+  showOriginal?: boolean; // Covers the edit with the original, e.g. while a key is held
+  onRender?: (imageData: ImageData) => void;
+  onSourceSize?: (width: number, height: number) => void;
+  overlay?: React.ReactNode; // Drawn over the edited image at its exact size, e.g. mask handles
 }
 
-const BeforeAfter: React.FC<BeforeAfterProps> = ({ originalUrl, settings, isCompareActive }) => {
+const BeforeAfter: React.FC<BeforeAfterProps> = ({ originalUrl, settings, geometry, isCompareActive, showOriginal, onRender, onSourceSize, overlay }) => {
   const [sliderPosition, setSliderPosition] = useState(50);
   const [isResizing, setIsResizing] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  const getFilterString = (s: FilterSettings) => {
-    return `brightness(${s.brightness}%) contrast(${s.contrast}%) saturate(${s.saturation}%) sepia(${s.sepia}%) grayscale(${s.grayscale}%) hue-rotate(${s.hueRotate}deg) blur(${s.blur}px)`;
-  };
-
   const handleMouseDown = () => {
       if (isCompareActive) setIsResizing(true);
   };
@@ -59,19 +65,38 @@ const BeforeAfter: React.FC<BeforeAfterProps> = ({ originalUrl, settings, isComp
     >
       {/* 
          LAYER 1: Edited Image (Layout Driver) 
-         This image is static (not absolute) so it defines the width/height of the container.
+         This canvas is static (not absolute) so it defines the width/height of the container.
          It ensures the slider overlay matches the image dimensions exactly.
       */}
-      <img
+      <ProcessedImage
         src={originalUrl}
+        settings={settings}
+        geometry={geometry}
+        maxSize={PREVIEW_SIZE}
         alt="Edited"
-        className="block max-w-full max-h-full w-auto h-auto object-contain transition-all duration-500"
-        style={{ 
-            filter: getFilterString(settings) 
-        }}
-        draggable={false}
+        className="block max-w-full max-h-full w-auto h-auto object-contain"
+        onRender={onRender}
+        onSourceSize={onSourceSize}
       />
+
+      {overlay}
       
+      {showOriginal && (
+        <div className="absolute inset-0 pointer-events-none z-30">
+            <ProcessedImage
+                src={originalUrl}
+                settings={defaultSettings}
+                geometry={geometry}
+                maxSize={PREVIEW_SIZE}
+                alt="Original"
+                className="w-full h-full object-contain"
+            />
+            <div className="absolute top-4 left-4 bg-black/50 text-white text-xs px-2 py-1 rounded font-medium backdrop-blur-sm">
+                Before
+            </div>
+        </div>
+      )}
+
       {/* Compare Mode UI Elements - Absolute Overlay */}
       {isCompareActive && (
         <div className="absolute inset-0">
@@ -83,16 +108,23 @@ const BeforeAfter: React.FC<BeforeAfterProps> = ({ originalUrl, settings, isComp
             {/* 
                 LAYER 2: Original Image (Overlay) 
                 Matches the layout driver exactly because parent is shrink-wrapped.
+                Rendered with the same crop so only the color differs.
             */}
-            <img
-                src={originalUrl}
-                alt="Original"
-                className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+            <div
+                className="absolute inset-0 pointer-events-none"
                 style={{ 
                     clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` 
                 }}
-                draggable={false}
-            />
+            >
+                <ProcessedImage
+                    src={originalUrl}
+                    settings={defaultSettings}
+                    geometry={geometry}
+                    maxSize={PREVIEW_SIZE}
+                    alt="Original"
+                    className="w-full h-full object-contain"
+                />
+            </div>
 
             {/* Label Before */}
             <div 
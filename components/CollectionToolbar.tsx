@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Album } from '../types';
+import { COLLECTION_SORTS, COLOR_LABELS, CollectionFilter, CollectionSort, MAX_RATING, defaultCollectionFilter, isCollectionFiltered } from '../services/collectionService';
+import { labelSwatches } from './PhotoLibraryDetails';
+
+interface CollectionToolbarProps {
+  filter: CollectionFilter;
+  onChange: (filter: CollectionFilter) => void;
+  albums: Album[];
+  albumCounts: Record<string, number>;
+  onCreateAlbum: (name: string) => void;
+  onDeleteAlbum: (id: string) => void;
+  shownCount: number;
+  totalCount: number;
+}
+
+const CollectionToolbar: React.FC<CollectionToolbarProps> = ({
+  filter,
+  onChange,
+  albums,
+  albumCounts,
+  onCreateAlbum,
+  onDeleteAlbum,
+  shownCount,
+  totalCount
+}) => {
+  const [newAlbumName, setNewAlbumName] = useState<string | null>(null); // Set while naming a new album
+  const update = (changes: Partial<CollectionFilter>) => onChange({ ...filter, ...changes });
+
+  const commitAlbum = () => {
+    if (newAlbumName?.trim()) onCreateAlbum(newAlbumName);
+    setNewAlbumName(null);
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-sm border transition-colors ${active ? 'bg-banana-500/20 border-banana-500 text-banana-400' : 'border-dark-border text-gray-400 hover:text-white'}`;
+
+  return (
+    <div className="space-y-3 mb-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => update({ albumId: null })} className={chipClass(filter.albumId === null)}>
+          All Photos <span className="text-xs opacity-60">{totalCount}</span>
+        </button>
+        {albums.map(album => (
+          <div key={album.id} className="group relative">
+            <button onClick={() => update({ albumId: album.id })} className={chipClass(filter.albumId === album.id)}>
+              {album.name} <span className="text-xs opacity-60">{albumCounts[album.id] ?? 0}</span>
+            </button>
+            <button
+              onClick={() => onDeleteAlbum(album.id)}
+              title={`Delete album "${album.name}"`}
+              className="absolute -top-1.5 -right-1.5 w-4 h-4 rounded-full bg-dark-border text-gray-300 hover:bg-red-500 hover:text-white text-[10px] leading-none opacity-0 group-hover:opacity-100 focus:opacity-100"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        {newAlbumName !== null ? (
+          <input
+            autoFocus
+            value={newAlbumName}
+            placeholder="Album name"
+            onChange={(e) => setNewAlbumName(e.target.value)}
+            onBlur={commitAlbum}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitAlbum();
+              if (e.key === 'Escape') setNewAlbumName(null);
+            }}
+            className="w-36 bg-black/30 border border-banana-500 rounded-full px-3 py-1 text-sm text-white focus:outline-none"
+          />
+        ) : (
+          <button onClick={() => setNewAlbumName('')} className="px-3 py-1 text-sm text-gray-500 hover:text-banana-400">
+            + New Album
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="search"
+          placeholder="Search names and tags"
+          value={filter.search}
+          onChange={(e) => update({ search: e.target.value })}
+          className="flex-1 min-w-[12rem] bg-black/30 border border-dark-border rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-banana-500"
+        />
+        <select
+          value={filter.minRating}
+          onChange={(e) => update({ minRating: Number(e.target.value) })}
+          aria-label="Minimum rating"
+          className="bg-black/30 border border-dark-border rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-banana-500"
+        >
+          <option value={0}>Any rating</option>
+          {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map(stars => (
+            <option key={stars} value={stars}>{'★'.repeat(stars)}{stars < MAX_RATING ? ' & up' : ''}</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-1.5" role="radiogroup" aria-label="Filter by label">
+          {COLOR_LABELS.map(option => (
+            <button
+              key={option.key}
+              role="radio"
+              aria-checked={filter.label === option.key}
+              onClick={() => update({ label: filter.label === option.key ? null : option.key })}
+              title={`${option.label} label`}
+              className={`w-4 h-4 rounded-full ${labelSwatches[option.key]} ${filter.label === option.key ? 'ring-2 ring-white ring-offset-2 ring-offset-dark-bg' : 'opacity-30 hover:opacity-70'}`}
+            />
+          ))}
+        </div>
+        <select
+          value={filter.sort}
+          onChange={(e) => update({ sort: e.target.value as CollectionSort })}
+          aria-label="Sort by"
+          className="bg-black/30 border border-dark-border rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-banana-500"
+        >
+          {COLLECTION_SORTS.map(sort => <option key={sort.key} value={sort.key}>{sort.label}</option>)}
+        </select>
+        {isCollectionFiltered(filter) && (
+          <button
+            onClick={() => onChange({ ...defaultCollectionFilter, sort: filter.sort })}
+            className="text-sm text-gray-400 hover:text-white"
+          >
+            Clear filters ({shownCount} of {totalCount})
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CollectionToolbar;
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+export interface PaletteItem {
+  id: string;
+  label: string;
+  group: string;
+  shortcut?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  items: PaletteItem[];
+  onClose: () => void;
+}
+
+// Every word of the query must appear somewhere in the label or group
+const matches = (item: PaletteItem, query: string) => {
+  const haystack = `${item.label} ${item.group}`.toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ items, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+  const results = items.filter(item => matches(item, query));
+
+  useEffect(() => setActive(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.children[active]?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const runItem = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActive(prev => Math.min(prev + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runItem(results[active]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/70 backdrop-blur-sm p-4 pt-[15vh]" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Command palette"
+        className="w-full max-w-lg bg-dark-surface border border-dark-border rounded-2xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          autoFocus
+          type="text"
+          placeholder="Type a command or preset..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          className="w-full bg-transparent border-b border-dark-border px-5 py-4 text-white focus:outline-none"
+        />
+        {results.length === 0 ? (
+          <p className="px-5 py-6 text-sm text-gray-500">No matching commands.</p>
+        ) : (
+          <ul ref={listRef} role="listbox" className="max-h-80 overflow-y-auto py-2">
+            {results.map((item, index) => (
+              <li
+                key={item.id}
+                role="option"
+                aria-selected={index === active}
+                onMouseEnter={() => setActive(index)}
+                onClick={() => runItem(item)}
+                className={`flex items-center justify-between gap-3 px-5 py-2 cursor-pointer text-sm ${index === active ? 'bg-banana-500/15 text-white' : 'text-gray-300'}`}
+              >
+                <span className="truncate">
+                  <span className="text-xs text-gray-500 mr-2">{item.group}</span>
+                  {item.label}
+                </span>
+                {item.shortcut && (
+                  <kbd className="shrink-0 px-1.5 py-0.5 rounded border border-dark-border bg-black/30 text-[11px] text-gray-400 font-sans">{item.shortcut}</kbd>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
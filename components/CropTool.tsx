@@ -0,0 +1,209 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { AspectPreset, CropRect, FilterSettings, Geometry } from '../types';
+import { ASPECT_PRESETS, FULL_CROP, MAX_STRAIGHTEN, aspectRatioFor, defaultGeometry, fitCropToAspect, normalizeCrop, rotateQuarter } from '../services/geometry';
+import ProcessedImage from './ProcessedImage';
+import { PREVIEW_SIZE } from './BeforeAfter';
+
+interface CropToolProps {
+  originalUrl: string;
+  settings: FilterSettings;
+  geometry: Geometry;
+  onChange: (geometry: Geometry) => void;
+  onDone: () => void;
+}
+
+type DragMode = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface DragState {
+  mode: DragMode;
+  startX: number;
+  startY: number;
+  startCrop: CropRect;
+}
+
+const HANDLES: { mode: DragMode; className: string }[] = [
+  { mode: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { mode: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { mode: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { mode: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Resizes from one corner while the opposite corner stays put; `fractionRatio` locks width / height
+const resizeCrop = (crop: CropRect, mode: DragMode, dx: number, dy: number, fractionRatio?: number): CropRect => {
+  const left = mode === 'nw' || mode === 'sw';
+  const top = mode === 'nw' || mode === 'ne';
+  const anchorX = left ? crop.x + crop.width : crop.x;
+  const anchorY = top ? crop.y + crop.height : crop.y;
+  let width = clamp(crop.width + (left ? -dx : dx), 0.02, left ? anchorX : 1 - anchorX);
+  let height = clamp(crop.height + (top ? -dy : dy), 0.02, top ? anchorY : 1 - anchorY);
+  if (fractionRatio) {
+    // Follow whichever edge moved further, then shrink back inside the frame
+    if (width / fractionRatio > height) height = width / fractionRatio;
+    else width = height * fractionRatio;
+    const fit = Math.min(1, (left ? anchorX : 1 - anchorX) / width, (top ? anchorY : 1 - anchorY) / height);
+    width *= fit;
+    height *= fit;
+  }
+  return normalizeCrop({ x: left ? anchorX - width : anchorX, y: top ? anchorY - height : anchorY, width, height });
+};
+
+const CropTool: React.FC<CropToolProps> = ({ originalUrl, settings, geometry, onChange, onDone }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  // Pixel size of the straightened frame as rendered; only its shape matters for aspect math
+  const [frame, setFrame] = useState({ width: 1, height: 1 });
+
+  // The whole straightened frame is shown so the crop can be moved anywhere inside it
+  const frameGeometry = useMemo(() => ({ ...geometry, crop: FULL_CROP }), [geometry]);
+
+  const handleRender = useCallback((imageData: ImageData) => {
+      setFrame(prev => prev.width === imageData.width && prev.height === imageData.height
+          ? prev
+          : { width: imageData.width, height: imageData.height });
+  }, []);
+
+  const fractionRatioFor = (aspect: AspectPreset, frameWidth: number, frameHeight: number) => {
+      const ratio = aspectRatioFor(aspect, frameWidth, frameHeight);
+      return ratio ? (ratio * frameHeight) / frameWidth : undefined;
+  };
+
+  const handlePointerDown = (mode: DragMode) => (e: React.PointerEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startCrop: geometry.crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag || !overlayRef.current) return;
+      const rect = overlayRef.current.getBoundingClientRect();
+      const dx = (e.clientX - drag.startX) / rect.width;
+      const dy = (e.clientY - drag.startY) / rect.height;
+      const { startCrop } = drag;
+      const crop = drag.mode === 'move'
+          ? {
+              ...startCrop,
+              x: clamp(startCrop.x + dx, 0, 1 - startCrop.width),
+              y: clamp(startCrop.y + dy, 0, 1 - startCrop.height),
+          }
+          : resizeCrop(startCrop, drag.mode, dx, dy, fractionRatioFor(geometry.aspect, frame.width, frame.height));
+      onChange({ ...geometry, crop });
+  };
+
+  const handlePointerUp = () => {
+      dragRef.current = null;
+  };
+
+  const handleAspectChange = (aspect: AspectPreset) => {
+      const ratio = aspectRatioFor(aspect, frame.width, frame.height);
+      onChange({ ...geometry, aspect, crop: ratio ? fitCropToAspect(geometry.crop, ratio, frame.width, frame.height) : geometry.crop });
+  };
+
+  const handleRotate = (direction: 1 | -1) => {
+      const rotated = rotateQuarter(geometry, direction);
+      // A quarter turn swaps the frame's sides before it has re-rendered
+      const ratio = aspectRatioFor(rotated.aspect, frame.height, frame.width);
+      onChange(ratio ? { ...rotated, crop: fitCropToAspect(rotated.crop, ratio, frame.height, frame.width) } : rotated);
+  };
+
+  const { crop } = geometry;
+  const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors';
+  const idleClass = 'bg-black/40 border-white/10 text-gray-200 hover:border-banana-500/60';
+  const activeClass = 'bg-banana-500 border-banana-500 text-black';
+
+  return (
+    <div className="flex flex-col items-center gap-4 max-w-full max-h-full">
+      <div className="relative inline-block max-w-full max-h-full select-none touch-none">
+        <ProcessedImage
+          src={originalUrl}
+          settings={settings}
+          geometry={frameGeometry}
+          maxSize={PREVIEW_SIZE}
+          alt="Crop preview"
+          className="block max-w-full max-h-full w-auto h-auto object-contain"
+          onRender={handleRender}
+        />
+        <div
+          ref={overlayRef}
+          className="absolute inset-0"
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <div
+            className="absolute border border-white cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+            style={{
+              left: `${crop.x * 100}%`,
+              top: `${crop.y * 100}%`,
+              width: `${crop.width * 100}%`,
+              height: `${crop.height * 100}%`,
+            }}
+            onPointerDown={handlePointerDown('move')}
+          >
+            {/* Rule-of-thirds guides */}
+            <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3">
+              {Array.from({ length: 9 }, (_, i) => <div key={i} className="border border-white/20" />)}
+            </div>
+            {HANDLES.map(handle => (
+              <div
+                key={handle.mode}
+                className={`absolute w-3 h-3 bg-white rounded-sm ${handle.className}`}
+                onPointerDown={handlePointerDown(handle.mode)}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-2 bg-black/50 backdrop-blur-md border border-white/10 rounded-xl px-4 py-3">
+        {ASPECT_PRESETS.map(preset => (
+          <button
+            key={preset.key}
+            onClick={() => handleAspectChange(preset.key)}
+            className={`${buttonClass} ${geometry.aspect === preset.key ? activeClass : idleClass}`}
+          >
+            {preset.label}
+          </button>
+        ))}
+        <span className="w-px h-6 bg-white/10 mx-1" />
+        <button onClick={() => handleRotate(-1)} className={`${buttonClass} ${idleClass}`} title="Rotate left">⟲ 90°</button>
+        <button onClick={() => handleRotate(1)} className={`${buttonClass} ${idleClass}`} title="Rotate right">⟳ 90°</button>
+        <button
+          onClick={() => onChange({ ...geometry, flipH: !geometry.flipH })}
+          className={`${buttonClass} ${geometry.flipH ? activeClass : idleClass}`}
+        >
+          Flip H
+        </button>
+        <button
+          onClick={() => onChange({ ...geometry, flipV: !geometry.flipV })}
+          className={`${buttonClass} ${geometry.flipV ? activeClass : idleClass}`}
+        >
+          Flip V
+        </button>
+        <span className="w-px h-6 bg-white/10 mx-1" />
+        <label className="flex items-center gap-2 text-xs text-gray-300">
+          Straighten
+          <input
+            type="range"
+            min={-MAX_STRAIGHTEN}
+            max={MAX_STRAIGHTEN}
+            step={0.1}
+            value={geometry.straighten}
+            onChange={(e) => onChange({ ...geometry, straighten: parseFloat(e.target.value) })}
+            onDoubleClick={() => onChange({ ...geometry, straighten: 0 })}
+            className="w-32 accent-banana-500"
+          />
+          <span className="w-12 text-right tabular-nums">{geometry.straighten.toFixed(1)}°</span>
+        </label>
+        <span className="w-px h-6 bg-white/10 mx-1" />
+        <button onClick={() => onChange(defaultGeometry)} className={`${buttonClass} ${idleClass}`}>Reset</button>
+        <button onClick={onDone} className={`${buttonClass} ${activeClass}`}>Done</button>
+      </div>
+    </div>
+  );
+};
+
+export default CropTool;
@@ -0,0 +1,149 @@
+import React, { useState, useRef } from 'react';
+import { CurvePoint, ToneCurves } from '../types';
+import { CurveChannel, buildCurveTable, identityCurve, isIdentityCurve } from '../services/toneCurve';
+
+interface CurveEditorProps {
+  curves: ToneCurves;
+  onChange: (curves: ToneCurves, changeLabel: string) => void;
+  disabled?: boolean;
+}
+
+const channels: { id: CurveChannel; label: string; color: string }[] = [
+  { id: 'rgb', label: 'RGB', color: '#e5e5e5' },
+  { id: 'red', label: 'Red', color: '#ef4444' },
+  { id: 'green', label: 'Green', color: '#22c55e' },
+  { id: 'blue', label: 'Blue', color: '#3b82f6' },
+];
+
+const toPolyline = (points: CurvePoint[]) =>
+  Array.from(buildCurveTable(points), (y, x) => `${x},${255 - y}`).join(' ');
+
+const CurveEditor: React.FC<CurveEditorProps> = ({ curves, onChange, disabled }) => {
+  const [channel, setChannel] = useState<CurveChannel>('rgb');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const active = channels.find(c => c.id === channel)!;
+  const points = curves[channel];
+
+  const updatePoints = (next: CurvePoint[]) => {
+    onChange({ ...curves, [channel]: next }, `${active.label} curve`);
+  };
+
+  const toLevels = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * 255;
+    const y = 255 - ((e.clientY - rect.top) / rect.height) * 255;
+    return {
+      x: Math.round(Math.max(0, Math.min(255, x))),
+      y: Math.round(Math.max(0, Math.min(255, y))),
+    };
+  };
+
+  // Keeps a dragged point strictly between its neighbours so the curve stays a function.
+  const movePoint = (index: number, target: CurvePoint) => {
+    const minX = index > 0 ? points[index - 1].x + 1 : 0;
+    const maxX = index < points.length - 1 ? points[index + 1].x - 1 : 255;
+    const next = points.slice();
+    next[index] = { x: Math.max(minX, Math.min(maxX, target.x)), y: target.y };
+    updatePoints(next);
+  };
+
+  const handleBackgroundPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const p = toLevels(e);
+    if (points.some(existing => existing.x === p.x)) return;
+    const next = [...points, p].sort((a, b) => a.x - b.x);
+    updatePoints(next);
+    setDragIndex(next.indexOf(p));
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointPointerDown = (e: React.PointerEvent<SVGCircleElement>, index: number) => {
+    if (disabled) return;
+    e.stopPropagation();
+    setDragIndex(index);
+    svgRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    movePoint(dragIndex, toLevels(e));
+  };
+
+  const handlePointDoubleClick = (index: number) => {
+    if (disabled || points.length <= 2) return;
+    updatePoints(points.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-white">Tone Curve</h4>
+        <button
+          onClick={() => updatePoints(identityCurve())}
+          disabled={disabled || isIdentityCurve(points)}
+          className="text-xs text-gray-400 hover:text-banana-400 disabled:opacity-50 disabled:hover:text-gray-400"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="flex gap-1">
+        {channels.map(c => (
+          <button
+            key={c.id}
+            onClick={() => setChannel(c.id)}
+            className={`flex-1 text-xs py-1 rounded-lg border transition-colors ${channel === c.id ? 'border-banana-500 bg-banana-500/10 text-white' : 'border-dark-border text-gray-400 hover:text-white'}`}
+          >
+            <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: c.color }}></span>
+            {c.label}
+          </button>
+        ))}
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox="0 0 255 255"
+        className={`w-full aspect-square bg-black/40 rounded-lg border border-dark-border touch-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+        onPointerDown={handleBackgroundPointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragIndex(null)}
+        onPointerCancel={() => setDragIndex(null)}
+      >
+        {[64, 128, 192].map(v => (
+          <g key={v} stroke="#333" strokeWidth="1">
+            <line x1={v} y1="0" x2={v} y2="255" />
+            <line x1="0" y1={v} x2="255" y2={v} />
+          </g>
+        ))}
+        <line x1="0" y1="255" x2="255" y2="0" stroke="#444" strokeDasharray="4 4" />
+
+        {/* Other edited channels stay faintly visible for reference */}
+        {channels.filter(c => c.id !== channel && !isIdentityCurve(curves[c.id])).map(c => (
+          <polyline key={c.id} points={toPolyline(curves[c.id])} fill="none" stroke={c.color} strokeOpacity="0.3" strokeWidth="1.5" />
+        ))}
+
+        <polyline points={toPolyline(points)} fill="none" stroke={active.color} strokeWidth="2" />
+
+        {points.map((p, i) => (
+          <circle
+            key={i}
+            cx={p.x}
+            cy={255 - p.y}
+            r={dragIndex === i ? 6 : 5}
+            fill={dragIndex === i ? active.color : '#121212'}
+            stroke={active.color}
+            strokeWidth="2"
+            className="cursor-grab"
+            onPointerDown={(e) => handlePointPointerDown(e, i)}
+            onDoubleClick={() => handlePointDoubleClick(i)}
+          />
+        ))}
+      </svg>
+      <p className="text-xs text-gray-500">Click to add a point, drag to shape, double-click to remove.</p>
+    </div>
+  );
+};
+
+export default CurveEditor;
@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { ExportFormat, ExportOptions, ExportProfile, ExportResizeMode, MetadataGroup, PhotoItem } from '../types';
+import { EXPORT_FORMATS, FILENAME_TOKENS, METADATA_GROUPS } from '../services/exportOptions';
+import { formatFilename } from '../services/exportService';
+import { defaultSettings } from '../services/filterSettings';
+
+interface ExportOptionsDialogProps {
+  options: ExportOptions;
+  profiles: ExportProfile[];
+  onChange: (options: ExportOptions) => void;
+  onSaveProfile: (name: string) => void;
+  onDeleteProfile: (id: string) => void;
+  onClose: () => void;
+}
+
+const resizeModes: { value: ExportResizeMode; label: string }[] = [
+  { value: 'original', label: 'Original' },
+  { value: 'longEdge', label: 'Long edge' },
+  { value: 'percent', label: 'Percentage' },
+];
+
+// Sample photo for the filename preview
+const previewItem: PhotoItem = { id: 'preview', originalUrl: '', name: 'beach', timestamp: Date.now(), settings: defaultSettings };
+
+const ExportOptionsDialog: React.FC<ExportOptionsDialogProps> = ({ options, profiles, onChange, onSaveProfile, onDeleteProfile, onClose }) => {
+  const [profileName, setProfileName] = useState('');
+  const format = EXPORT_FORMATS[options.format];
+  const matchingProfile = profiles.find(profile => JSON.stringify(profile.options) === JSON.stringify(options));
+
+  const update = (patch: Partial<ExportOptions>) => onChange({ ...options, ...patch });
+
+  const toggleMetadata = (group: MetadataGroup) => {
+    const metadata = options.metadata.includes(group)
+      ? options.metadata.filter(key => key !== group)
+      : METADATA_GROUPS.map(g => g.key).filter(key => key === group || options.metadata.includes(key));
+    update({ metadata });
+  };
+
+  const handleSaveProfile = () => {
+    onSaveProfile(profileName);
+    setProfileName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Export settings"
+        className="w-full max-w-md bg-dark-surface border border-dark-border rounded-2xl p-6 space-y-5 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-semibold text-white">Export Settings</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+          </button>
+        </div>
+
+        {/* Profiles */}
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-gray-400">Profile</label>
+          <div className="flex gap-2">
+            <select
+              value={matchingProfile?.id ?? ''}
+              onChange={(e) => {
+                const profile = profiles.find(p => p.id === e.target.value);
+                if (profile) onChange(profile.options);
+              }}
+              className="flex-1 min-w-0 bg-black/30 border border-dark-border rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-banana-500"
+            >
+              <option value="" disabled>{profiles.length === 0 ? 'No saved profiles' : 'Custom'}</option>
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+            {matchingProfile && (
+              <button
+                onClick={() => {
+                  if (confirm(`Delete export profile "${matchingProfile.name}"?`)) onDeleteProfile(matchingProfile.id);
+                }}
+                title="Delete profile"
+                className="px-2 text-gray-400 hover:text-red-400"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"/><path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6"/></svg>
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Format & quality */}
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-gray-400">Format</label>
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+              <button
+                key={key}
+                onClick={() => update({ format: key })}
+                className={`py-1.5 rounded-lg text-sm border transition-colors ${options.format === key ? 'bg-banana-500 border-banana-500 text-white' : 'border-dark-border text-gray-300 hover:border-banana-500'}`}
+              >
+                {EXPORT_FORMATS[key].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {format.lossy && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-xs">
+              <label htmlFor="export-quality" className="font-medium text-gray-400">Quality</label>
+              <span className="text-gray-300">{options.quality}%</span>
+            </div>
+            <input
+              id="export-quality"
+              type="range"
+              min={1}
+              max={100}
+              value={options.quality}
+              onChange={(e) => update({ quality: parseInt(e.target.value, 10) })}
+              className="w-full accent-banana-500"
+            />
+          </div>
+        )}
+
+        {/* Resize */}
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-gray-400">Size</label>
+          <div className="flex gap-2">
+            <select
+              value={options.resizeMode}
+              onChange={(e) => update({ resizeMode: e.target.value as ExportResizeMode })}
+              className="flex-1 bg-black/30 border border-dark-border rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-banana-500"
+            >
+              {resizeModes.map(mode => <option key={mode.value} value={mode.value}>{mode.label}</option>)}
+            </select>
+            {options.resizeMode !== 'original' && (
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={options.resizeMode === 'percent' ? 1 : 16}
+                  max={options.resizeMode === 'percent' ? 100 : 16384}
+                  value={options.resizeMode === 'percent' ? options.percent : options.longEdge}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (!Number.isFinite(value) || value <= 0) return;
+                    update(options.resizeMode === 'percent' ? { percent: Math.min(100, value) } : { longEdge: Math.min(16384, value) });
+                  }}
+                  className="w-24 bg-black/30 border border-dark-border rounded-lg px-2 py-1.5 text-sm text-white text-right focus:outline-none focus:border-banana-500"
+                />
+                <span className="text-sm text-gray-400">{options.resizeMode === 'percent' ? '%' : 'px'}</span>
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">Photos are never enlarged.</p>
+        </div>
+
+        {/* Filename */}
+        <div className="space-y-2">
+          <label htmlFor="export-filename" className="text-xs font-medium text-gray-400">File name</label>
+          <input
+            id="export-filename"
+            type="text"
+            value={options.filenameTemplate}
+            onChange={(e) => update({ filenameTemplate: e.target.value })}
+            className="w-full bg-black/30 border border-dark-border rounded-lg px-2 py-1.5 text-sm text-white font-mono focus:outline-none focus:border-banana-500"
+          />
+          <div className="flex flex-wrap gap-1">
+            {FILENAME_TOKENS.map(token => (
+              <button
+                key={token}
+                onClick={() => update({ filenameTemplate: options.filenameTemplate + token })}
+                className="px-1.5 py-0.5 rounded bg-black/30 text-[11px] font-mono text-gray-400 hover:text-banana-400"
+              >
+                {token}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 truncate">
+            Example: {formatFilename(options.filenameTemplate, previewItem, { index: 3, total: 12 }, { width: 2048, height: 1365 })}.{format.extension}
+          </p>
+        </div>
+
+        {/* Metadata */}
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-gray-400">Metadata</label>
+          {options.format === 'jpeg' ? (
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1.5">
+              {METADATA_GROUPS.map(group => (
+                <label key={group.key} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={options.metadata.includes(group.key)}
+                    onChange={() => toggleMetadata(group.key)}
+                    className="accent-banana-500"
+                  />
+                  {group.label}
+                </label>
+              ))}
+              <label className="col-span-2 flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options.stripGps}
+                  onChange={(e) => update({ stripGps: e.target.checked })}
+                  className="accent-banana-500"
+                />
+                Remove GPS location
+              </label>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">Camera metadata is only kept in JPEG exports.</p>
+          )}
+        </div>
+
+        {/* Save profile */}
+        <div className="flex gap-2 pt-4 border-t border-dark-border">
+          <input
+            type="text"
+            placeholder="Save these settings as..."
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleSaveProfile(); }}
+            className="flex-1 min-w-0 bg-black/30 border border-dark-border rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-banana-500"
+          />
+          <button
+            onClick={handleSaveProfile}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg border border-dark-border text-gray-300 hover:text-white hover:border-banana-500"
+          >
+            Save Profile
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-1.5 text-sm font-bold rounded-lg bg-banana-500 hover:bg-banana-600 text-white"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportOptionsDialog;
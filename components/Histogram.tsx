@@ -0,0 +1,75 @@
+import React, { useRef, useEffect } from 'react';
+import { Histogram as HistogramData } from '../services/imageStats';
+
+interface HistogramProps {
+  histogram: HistogramData | null;
+  className?: string;
+}
+
+const WIDTH = 256;
+const HEIGHT = 100;
+
+// Clipping warnings light up above this share of pixels.
+const CLIP_WARNING_PERCENT = 0.1;
+
+const channelStyles: { key: 'red' | 'green' | 'blue' | 'luma'; color: string }[] = [
+  { key: 'luma', color: 'rgba(229, 229, 229, 0.35)' },
+  { key: 'red', color: 'rgba(239, 68, 68, 0.55)' },
+  { key: 'green', color: 'rgba(34, 197, 94, 0.55)' },
+  { key: 'blue', color: 'rgba(59, 130, 246, 0.55)' },
+];
+
+const Histogram: React.FC<HistogramProps> = ({ histogram, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    if (!histogram || histogram.total === 0) return;
+
+    // Scale to the tallest interior bin so a spike at pure black or white doesn't flatten the rest
+    let peak = 1;
+    for (const { key } of channelStyles) {
+      for (let i = 1; i < 255; i++) peak = Math.max(peak, histogram[key][i]);
+    }
+
+    ctx.globalCompositeOperation = 'lighter';
+    for (const { key, color } of channelStyles) {
+      const bins = histogram[key];
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(0, HEIGHT);
+      for (let i = 0; i < 256; i++) {
+        ctx.lineTo(i, HEIGHT - Math.min(1, bins[i] / peak) * HEIGHT);
+      }
+      ctx.lineTo(WIDTH, HEIGHT);
+      ctx.closePath();
+      ctx.fill();
+    }
+    ctx.globalCompositeOperation = 'source-over';
+  }, [histogram]);
+
+  const shadowClip = histogram && histogram.total > 0 ? (histogram.shadowClipped / histogram.total) * 100 : 0;
+  const highlightClip = histogram && histogram.total > 0 ? (histogram.highlightClipped / histogram.total) * 100 : 0;
+
+  return (
+    <div className={`relative bg-black/60 backdrop-blur-sm rounded-lg border border-white/10 p-2 ${className ?? ''}`}>
+      <canvas ref={canvasRef} width={WIDTH} height={HEIGHT} className="block w-full h-auto" />
+      <div
+        className={`absolute top-1 left-1 w-0 h-0 border-t-[8px] border-r-[8px] border-r-transparent ${shadowClip > CLIP_WARNING_PERCENT ? 'border-t-sky-400' : 'border-t-white/20'}`}
+        title={`Clipped shadows: ${shadowClip.toFixed(2)}%`}
+      ></div>
+      <div
+        className={`absolute top-1 right-1 w-0 h-0 border-t-[8px] border-l-[8px] border-l-transparent ${highlightClip > CLIP_WARNING_PERCENT ? 'border-t-red-500' : 'border-t-white/20'}`}
+        title={`Clipped highlights: ${highlightClip.toFixed(2)}%`}
+      ></div>
+      <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+        <span>{shadowClip.toFixed(1)}% black</span>
+        <span>{highlightClip.toFixed(1)}% white</span>
+      </div>
+    </div>
+  );
+};
+
+export default Histogram;
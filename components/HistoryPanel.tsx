@@ -0,0 +1,75 @@
+import React from 'react';
+import { EditHistory, HistorySource } from '../types';
+import { canRedo, canUndo } from '../services/editHistory';
+
+interface HistoryPanelProps {
+  history: EditHistory;
+  onJump: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  disabled?: boolean;
+}
+
+const sourceBadges: Record<HistorySource, { label: string; className: string }> = {
+  initial: { label: 'Start', className: 'bg-gray-500/20 text-gray-300' },
+  ai: { label: 'AI', className: 'bg-banana-500/20 text-banana-400' },
+  manual: { label: 'Manual', className: 'bg-sky-500/20 text-sky-300' },
+  preset: { label: 'Preset', className: 'bg-purple-500/20 text-purple-300' },
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onUndo, onRedo, disabled }) => {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-white">History</h4>
+        <div className="flex gap-1">
+          <button
+            onClick={onUndo}
+            disabled={disabled || !canUndo(history)}
+            title="Undo (Ctrl+Z)"
+            className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-dark-border disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M3 7v6h6"/><path d="M21 17a9 9 0 0 0-9-9 9 9 0 0 0-6 2.3L3 13"/></svg>
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={disabled || !canRedo(history)}
+            title="Redo (Ctrl+Shift+Z)"
+            className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-dark-border disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 7v6h-6"/><path d="M3 17a9 9 0 0 1 9-9 9 9 0 0 1 6 2.3l3 2.7"/></svg>
+          </button>
+        </div>
+      </div>
+
+      <ol className="max-h-64 overflow-y-auto space-y-1 pr-1">
+        {history.entries.map((entry, i) => {
+          const isCurrent = i === history.index;
+          const isRedoable = i > history.index;
+          const badge = sourceBadges[entry.source];
+          return (
+            <li key={entry.id}>
+              <button
+                onClick={() => onJump(i)}
+                disabled={disabled}
+                title={entry.detail}
+                className={`w-full text-left px-2 py-1.5 rounded-lg flex items-start gap-2 text-xs transition-colors
+                  ${isCurrent ? 'bg-banana-500/10 border border-banana-500/40' : 'border border-transparent hover:bg-dark-border'}
+                  ${isRedoable ? 'opacity-50' : ''}
+                `}
+              >
+                <span className={`shrink-0 px-1.5 py-0.5 rounded font-medium ${badge.className}`}>{badge.label}</span>
+                <span className="min-w-0 flex-1">
+                  <span className="block text-gray-200 truncate">{entry.label}</span>
+                  {entry.detail && <span className="block text-gray-500 truncate italic">{entry.detail}</span>}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,35 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface LazyTileProps {
+  className?: string;
+  children: React.ReactNode;
+}
+
+// Tiles this far outside the viewport are already mounted, so scrolling doesn't reveal blanks
+const MOUNT_MARGIN = '600px';
+
+/**
+ * Mounts its children only while near the viewport and unmounts them again once scrolled away,
+ * so a grid of hundreds of photos only keeps the visible tiles' images and canvases in memory.
+ * The wrapper itself always renders, keeping the grid's layout and scroll height.
+ */
+const LazyTile: React.FC<LazyTileProps> = ({ className, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [isNear, setIsNear] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    if (typeof IntersectionObserver === 'undefined') {
+      setIsNear(true);
+      return;
+    }
+    const observer = new IntersectionObserver(([entry]) => setIsNear(entry.isIntersecting), { rootMargin: MOUNT_MARGIN });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  return <div ref={ref} className={className}>{isNear && children}</div>;
+};
+
+export default LazyTile;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { AnalysisResult, FilterSettings, Geometry } from '../types';
+import ProcessedImage from './ProcessedImage';
+
+// Long edge of each variant thumbnail
+const VARIANT_THUMBNAIL_SIZE = 240;
+
+interface LookVariantStripProps {
+  originalUrl: string;
+  variants: AnalysisResult[];
+  baseSettings: FilterSettings; // Current settings; variants keep its LUT, like an applied spell does
+  geometry?: Geometry;
+  activeIndex: number | null;
+  onApply: (index: number) => void;
+  onSavePreset: (index: number) => void;
+  onClose: () => void;
+  disabled?: boolean;
+}
+
+const LookVariantStrip: React.FC<LookVariantStripProps> = ({
+  originalUrl,
+  variants,
+  baseSettings,
+  geometry,
+  activeIndex,
+  onApply,
+  onSavePreset,
+  onClose,
+  disabled
+}) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between">
+      <h4 className="text-sm font-semibold text-white">Pick a Look</h4>
+      <button onClick={onClose} className="text-xs text-gray-400 hover:text-white">Dismiss</button>
+    </div>
+    <div className="flex gap-3 overflow-x-auto pb-1">
+      {variants.map((variant, index) => (
+        <div
+          key={index}
+          className={`group relative shrink-0 w-36 rounded-xl overflow-hidden border-2 transition-colors ${activeIndex === index ? 'border-banana-500' : 'border-dark-border hover:border-banana-500/50'}`}
+        >
+          <button
+            onClick={() => onApply(index)}
+            disabled={disabled}
+            title={variant.reasoning}
+            className="block w-full text-left disabled:cursor-not-allowed"
+          >
+            <ProcessedImage
+              src={originalUrl}
+              settings={{ ...baseSettings, ...variant.suggestedSettings }}
+              geometry={geometry}
+              maxSize={VARIANT_THUMBNAIL_SIZE}
+              alt={variant.name}
+              className="block w-full h-24 object-cover bg-black/40"
+            />
+            <span className="block px-2 py-1.5 text-xs font-medium text-white truncate bg-black/40">{variant.name}</span>
+          </button>
+          <button
+            onClick={() => onSavePreset(index)}
+            disabled={disabled}
+            title="Save as preset"
+            className="absolute top-1 right-1 p-1 rounded-md bg-black/60 text-gray-200 hover:text-banana-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"/><polyline points="17 21 17 13 7 13 7 21"/><polyline points="7 3 7 8 15 8"/></svg>
+          </button>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default LookVariantStrip;
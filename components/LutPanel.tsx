@@ -0,0 +1,99 @@
+import React from 'react';
+import { Lut3D } from '../types';
+import { LUT_INTENSITY_FIELD } from '../services/filterSettings';
+
+interface LutPanelProps {
+  luts: Lut3D[];
+  lutId: string | null;
+  intensity: number;
+  onSelect: (id: string | null) => void;
+  onIntensityChange: (intensity: number) => void;
+  onImport: (file: File) => void;
+  onDelete: (id: string) => void;
+  onBake: () => void;
+  disabled?: boolean;
+}
+
+const LutPanel: React.FC<LutPanelProps> = ({ luts, lutId, intensity, onSelect, onIntensityChange, onImport, onDelete, onBake, disabled }) => {
+  const active = luts.find(lut => lut.id === lutId);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-white">Color Grade (LUT)</h4>
+        <label className="text-xs text-gray-400 hover:text-banana-400 cursor-pointer" title="Load a 3D .cube LUT">
+          Load .cube
+          <input
+            type="file"
+            accept=".cube"
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files && e.target.files[0]) onImport(e.target.files[0]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          value={active ? active.id : ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          disabled={disabled}
+          className="flex-1 min-w-0 bg-black/30 border border-dark-border rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-banana-500 disabled:opacity-50"
+        >
+          <option value="">None</option>
+          {luts.map(lut => (
+            <option key={lut.id} value={lut.id}>{lut.name} ({lut.size}³)</option>
+          ))}
+        </select>
+        {active && (
+          <button
+            onClick={() => {
+              if (confirm(`Remove "${active.name}" from your LUT library?`)) onDelete(active.id);
+            }}
+            title="Remove LUT from library"
+            className="px-2 text-gray-400 hover:text-red-400"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"/><path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6"/></svg>
+          </button>
+        )}
+      </div>
+
+      {lutId && !active && (
+        <p className="text-xs text-red-300">This photo uses a LUT that isn't in your library. Load its .cube file to relink it.</p>
+      )}
+
+      {active && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-xs">
+            <label htmlFor="lut-intensity" className="font-medium text-gray-400">{LUT_INTENSITY_FIELD.label}</label>
+            <span className="text-gray-300">{intensity}%</span>
+          </div>
+          <input
+            id="lut-intensity"
+            type="range"
+            min={LUT_INTENSITY_FIELD.min}
+            max={LUT_INTENSITY_FIELD.max}
+            step={LUT_INTENSITY_FIELD.step}
+            value={intensity}
+            disabled={disabled}
+            onChange={(e) => onIntensityChange(parseFloat(e.target.value))}
+            className="w-full accent-banana-500 disabled:opacity-50"
+          />
+        </div>
+      )}
+
+      <button
+        onClick={onBake}
+        disabled={disabled}
+        title="Bake the current color adjustments into a .cube file (blur is not included)"
+        className="w-full text-xs py-1.5 rounded-lg border border-dark-border text-gray-300 hover:text-white hover:border-banana-500 disabled:opacity-50"
+      >
+        Export Look as .cube
+      </button>
+    </div>
+  );
+};
+
+export default LutPanel;
@@ -0,0 +1,237 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BrushStroke, Geometry, LocalAdjustment, MaskPoint } from '../types';
+import { brushScale, maskTransform, maskWeights } from '../services/localAdjustments';
+import { applyAffine, croppedSize, invertAffine } from '../services/geometry';
+import { fitWithin } from '../services/renderPipeline';
+
+export interface BrushOptions {
+  radius: number; // Fraction of the source image's long edge
+  erase: boolean;
+}
+
+interface MaskOverlayProps {
+  adjustment: LocalAdjustment;
+  sourceWidth: number; // Size of the photo the mask is drawn on; only its shape matters
+  sourceHeight: number;
+  geometry: Geometry; // The crop and rotation the photo is shown with
+  brush: BrushOptions;
+  showMask: boolean; // Tints the masked area so its extent is visible
+  onChange: (adjustment: LocalAdjustment, changeLabel: string) => void;
+}
+
+type Handle = 'start' | 'end' | 'line' | 'center' | 'radiusX' | 'radiusY';
+
+interface DragState {
+  handle: Handle;
+  origin: MaskPoint;
+  startAdjustment: LocalAdjustment;
+}
+
+// The tint is a low-resolution preview of the mask stretched over the image
+const TINT_SIZE = 320;
+
+// Brush points closer than this share of the radius add nothing visible and only slow rendering
+const MIN_POINT_SPACING = 0.25;
+
+const MaskOverlay: React.FC<MaskOverlayProps> = ({ adjustment, sourceWidth, sourceHeight, geometry, brush, showMask, onChange }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const tintRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [size, setSize] = useState({ width: 1, height: 1 });
+  // The stroke being painted is kept here and committed on release, so the photo re-renders once per stroke
+  const [stroke, setStroke] = useState<BrushStroke | null>(null);
+  const [cursor, setCursor] = useState<MaskPoint | null>(null); // In overlay pixels
+
+  useEffect(() => {
+    const element = overlayRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize({ width: Math.max(1, width), height: Math.max(1, height) });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const { mask } = adjustment;
+  const cropped = useMemo(() => croppedSize(sourceWidth, sourceHeight, geometry), [sourceWidth, sourceHeight, geometry]);
+  // Mask coordinates are fractions of the source; these map them to overlay pixels and back
+  const toOverlay = useMemo(
+      () => maskTransform(sourceWidth, sourceHeight, geometry, size.width / cropped.width),
+      [sourceWidth, sourceHeight, geometry, size, cropped]);
+  const fromOverlay = useMemo(() => invertAffine(toOverlay), [toOverlay]);
+  const displayed = useMemo<LocalAdjustment>(() => stroke && adjustment.mask.type === 'brush'
+      ? { ...adjustment, mask: { ...adjustment.mask, strokes: [...adjustment.mask.strokes, stroke] } }
+      : adjustment, [adjustment, stroke]);
+
+  useEffect(() => {
+    const canvas = tintRef.current;
+    if (!showMask || !canvas) return;
+    const { width, height } = fitWithin(Math.round(size.width), Math.round(size.height), TINT_SIZE);
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const weights = maskWeights(displayed, width, height, maskTransform(sourceWidth, sourceHeight, geometry, width / cropped.width));
+    const tint = ctx.createImageData(width, height);
+    for (let p = 0; p < weights.length; p++) {
+      tint.data[p * 4] = 255;
+      tint.data[p * 4 + 1] = 64;
+      tint.data[p * 4 + 2] = 64;
+      tint.data[p * 4 + 3] = weights[p] * 140;
+    }
+    ctx.putImageData(tint, 0, 0);
+  }, [displayed, showMask, size, sourceWidth, sourceHeight, geometry, cropped]);
+
+  const toOverlayPoint = (e: React.PointerEvent): MaskPoint => {
+      const rect = overlayRef.current!.getBoundingClientRect();
+      return { x: ((e.clientX - rect.left) / rect.width) * size.width, y: ((e.clientY - rect.top) / rect.height) * size.height };
+  };
+  const toPoint = (e: React.PointerEvent): MaskPoint => applyAffine(fromOverlay, toOverlayPoint(e));
+
+  const handlePointerDown = (handle: Handle) => (e: React.PointerEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      overlayRef.current?.setPointerCapture(e.pointerId);
+      dragRef.current = { handle, origin: toPoint(e), startAdjustment: adjustment };
+  };
+
+  const handleBrushDown = (e: React.PointerEvent) => {
+      if (mask.type !== 'brush') return;
+      e.preventDefault();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setStroke({ points: [toPoint(e)], radius: brush.radius, erase: brush.erase });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+      const point = toPoint(e);
+      if (mask.type === 'brush') {
+          setCursor(toOverlayPoint(e));
+          if (!stroke) return;
+          const last = stroke.points[stroke.points.length - 1];
+          const longEdge = Math.max(sourceWidth, sourceHeight);
+          const distance = Math.hypot((point.x - last.x) * sourceWidth, (point.y - last.y) * sourceHeight) / longEdge;
+          if (distance >= stroke.radius * MIN_POINT_SPACING) setStroke({ ...stroke, points: [...stroke.points, point] });
+          return;
+      }
+
+      const drag = dragRef.current;
+      if (!drag) return;
+      const dx = point.x - drag.origin.x;
+      const dy = point.y - drag.origin.y;
+      const start = drag.startAdjustment.mask;
+      if (start.type === 'linear') {
+          const move = (p: MaskPoint) => ({ x: p.x + dx, y: p.y + dy });
+          onChange({
+              ...adjustment,
+              mask: {
+                  ...start,
+                  start: drag.handle === 'start' || drag.handle === 'line' ? move(start.start) : start.start,
+                  end: drag.handle === 'end' || drag.handle === 'line' ? move(start.end) : start.end,
+              },
+          }, 'Move mask');
+      } else if (start.type === 'radial') {
+          onChange({
+              ...adjustment,
+              mask: {
+                  ...start,
+                  center: drag.handle === 'center' ? { x: start.center.x + dx, y: start.center.y + dy } : start.center,
+                  radiusX: drag.handle === 'radiusX' ? Math.max(0.01, start.radiusX + dx) : start.radiusX,
+                  radiusY: drag.handle === 'radiusY' ? Math.max(0.01, start.radiusY + dy) : start.radiusY,
+              },
+          }, 'Move mask');
+      }
+  };
+
+  const handlePointerUp = () => {
+      dragRef.current = null;
+      if (stroke && mask.type === 'brush') {
+          onChange({ ...adjustment, mask: { ...mask, strokes: [...mask.strokes, stroke] } }, brush.erase ? 'Erase mask' : 'Paint mask');
+      }
+      setStroke(null);
+  };
+
+  // Handles are drawn in overlay pixels so they keep their size whatever the photo's shape
+  const px = (p: MaskPoint) => applyAffine(toOverlay, p);
+  const handleClass = 'fill-white stroke-black/60 cursor-move';
+
+  const renderHandles = () => {
+      if (mask.type === 'linear') {
+          const start = px(mask.start);
+          const end = px(mask.end);
+          // Guide lines across the frame, perpendicular to the gradient, where it begins and ends fading
+          const angle = Math.atan2(end.y - start.y, end.x - start.x) + Math.PI / 2;
+          const reach = size.width + size.height;
+          const guide = (p: { x: number; y: number }) => ({
+              x1: p.x - Math.cos(angle) * reach, y1: p.y - Math.sin(angle) * reach,
+              x2: p.x + Math.cos(angle) * reach, y2: p.y + Math.sin(angle) * reach,
+          });
+          return (
+              <>
+                  <line {...guide(start)} className="stroke-white/80" strokeWidth={1.5} />
+                  <line {...guide(end)} className="stroke-white/50" strokeWidth={1.5} strokeDasharray="6 4" />
+                  <line
+                      x1={start.x} y1={start.y} x2={end.x} y2={end.y}
+                      className="stroke-white cursor-move" strokeWidth={8} strokeOpacity={0.01}
+                      onPointerDown={handlePointerDown('line')}
+                  />
+                  <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} className="stroke-white pointer-events-none" strokeWidth={1.5} />
+                  <circle cx={start.x} cy={start.y} r={7} className={handleClass} onPointerDown={handlePointerDown('start')} />
+                  <circle cx={end.x} cy={end.y} r={5} className={handleClass} onPointerDown={handlePointerDown('end')} />
+              </>
+          );
+      }
+      if (mask.type === 'radial') {
+          const center = px(mask.center);
+          // The source's axes may be turned on screen, so the ellipse is drawn rotated along its x axis
+          const axisX = { x: toOverlay.a * mask.radiusX, y: toOverlay.b * mask.radiusX };
+          const axisY = { x: toOverlay.c * mask.radiusY, y: toOverlay.d * mask.radiusY };
+          const rx = Math.hypot(axisX.x, axisX.y);
+          const ry = Math.hypot(axisY.x, axisY.y);
+          const angle = (Math.atan2(axisX.y, axisX.x) * 180) / Math.PI;
+          const resizeCursor = (axis: MaskPoint) => Math.abs(axis.x) >= Math.abs(axis.y) ? 'cursor-ew-resize' : 'cursor-ns-resize';
+          const hard = 1 - adjustment.feather / 100;
+          return (
+              <>
+                  <g transform={`rotate(${angle} ${center.x} ${center.y})`}>
+                      <ellipse cx={center.x} cy={center.y} rx={rx} ry={ry} fill="none" className="stroke-white" strokeWidth={1.5} />
+                      {hard > 0 && hard < 1 && (
+                          <ellipse cx={center.x} cy={center.y} rx={rx * hard} ry={ry * hard} fill="none" className="stroke-white/50" strokeWidth={1.5} strokeDasharray="6 4" />
+                      )}
+                  </g>
+                  <circle cx={center.x} cy={center.y} r={7} className={handleClass} onPointerDown={handlePointerDown('center')} />
+                  <rect x={center.x + axisX.x - 5} y={center.y + axisX.y - 5} width={10} height={10} className={`${handleClass} ${resizeCursor(axisX)}`} onPointerDown={handlePointerDown('radiusX')} />
+                  <rect x={center.x + axisY.x - 5} y={center.y + axisY.y - 5} width={10} height={10} className={`${handleClass} ${resizeCursor(axisY)}`} onPointerDown={handlePointerDown('radiusY')} />
+              </>
+          );
+      }
+      if (!cursor) return null;
+      const radius = brush.radius * brushScale(toOverlay);
+      return (
+          <circle
+              cx={cursor.x} cy={cursor.y} r={radius}
+              fill="none" className={brush.erase ? 'stroke-red-300' : 'stroke-white'} strokeWidth={1.5}
+              pointerEvents="none"
+          />
+      );
+  };
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`absolute inset-0 z-20 overflow-hidden touch-none ${mask.type === 'brush' ? 'cursor-crosshair' : ''}`}
+      onPointerDown={handleBrushDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => setCursor(null)}
+    >
+      {showMask && <canvas ref={tintRef} className="absolute inset-0 w-full h-full pointer-events-none" />}
+      <svg className="absolute inset-0 w-full h-full" width={size.width} height={size.height}>
+        {renderHandles()}
+      </svg>
+    </div>
+  );
+};
+
+export default MaskOverlay;
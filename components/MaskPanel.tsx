@@ -0,0 +1,181 @@
+import React from 'react';
+import { LocalAdjustment, LocalSettings, MaskPoint, MaskType } from '../types';
+import { SETTING_FIELDS } from '../services/filterSettings';
+import { LOCAL_SETTING_KEYS, MASK_TYPES, MAX_BRUSH_RADIUS, MIN_BRUSH_RADIUS, createLocalAdjustment } from '../services/localAdjustments';
+import { AdjustmentSlider } from './AdjustmentPanel';
+import { BrushOptions } from './MaskOverlay';
+
+interface MaskPanelProps {
+  adjustments: LocalAdjustment[];
+  activeId: string | null;
+  onSelect: (id: string | null) => void;
+  onChange: (adjustments: LocalAdjustment[], changeLabel: string) => void;
+  toSource?: (point: MaskPoint) => MaskPoint; // Maps a point of the visible frame onto the photo, so new masks start in view
+  brush: BrushOptions;
+  onBrushChange: (brush: BrushOptions) => void;
+  showMask: boolean;
+  onShowMaskChange: (show: boolean) => void;
+  disabled?: boolean;
+}
+
+const LOCAL_FIELDS = SETTING_FIELDS.filter(field => (LOCAL_SETTING_KEYS as string[]).includes(field.key));
+
+const MASK_ICONS: Record<MaskType, React.ReactNode> = {
+  linear: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="18" height="18" rx="2"/><line x1="3" y1="9" x2="21" y2="9"/><line x1="3" y1="15" x2="21" y2="15" strokeDasharray="3 3"/></svg>,
+  radial: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="9"/><circle cx="12" cy="12" r="4" strokeDasharray="3 3"/></svg>,
+  brush: <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M9.06 11.9 17.65 3.3a2.12 2.12 0 0 1 3 3l-8.59 8.6"/><path d="M7.07 14.94c-1.66 0-3 1.35-3 3.02 0 1.33-2.5 1.52-2 2.02 1.08 1.1 2.49 2.02 4 2.02 2.2 0 4-1.8 4-4.04a3.01 3.01 0 0 0-3-3.02z"/></svg>,
+};
+
+const MaskPanel: React.FC<MaskPanelProps> = ({ adjustments, activeId, onSelect, onChange, toSource, brush, onBrushChange, showMask, onShowMaskChange, disabled }) => {
+  const active = adjustments.find(adjustment => adjustment.id === activeId);
+
+  const handleAdd = (type: MaskType) => {
+      const adjustment = createLocalAdjustment(type, adjustments, toSource);
+      onChange([...adjustments, adjustment], `Add ${adjustment.name}`);
+      onSelect(adjustment.id);
+  };
+
+  const handleDelete = (adjustment: LocalAdjustment) => {
+      onChange(adjustments.filter(other => other.id !== adjustment.id), `Delete ${adjustment.name}`);
+      if (adjustment.id === activeId) onSelect(null);
+  };
+
+  const updateActive = (changes: Partial<LocalAdjustment>, label: string) => {
+      if (!active) return;
+      onChange(adjustments.map(adjustment => adjustment.id === active.id ? { ...adjustment, ...changes } : adjustment), label);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-white">Masks</h4>
+        <label className="flex items-center gap-1.5 text-xs text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={showMask} onChange={(e) => onShowMaskChange(e.target.checked)} className="accent-banana-500" />
+          Show overlay
+        </label>
+      </div>
+
+      <div className="flex gap-1.5">
+        {MASK_TYPES.map(({ type, label }) => (
+          <button
+            key={type}
+            onClick={() => handleAdd(type)}
+            disabled={disabled}
+            title={`Add ${label.toLowerCase()} mask`}
+            className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 rounded-lg border border-dark-border bg-black/30 text-xs text-gray-300 hover:border-banana-500/60 hover:text-white disabled:opacity-50"
+          >
+            {MASK_ICONS[type]}
+            {label.split(' ')[0]}
+          </button>
+        ))}
+      </div>
+
+      {adjustments.length === 0 ? (
+        <p className="text-xs text-gray-500">Add a mask to adjust part of the photo. Drag its handles on the image to place it.</p>
+      ) : (
+        <ul className="space-y-1">
+          {adjustments.map(adjustment => (
+            <li
+              key={adjustment.id}
+              onClick={() => onSelect(adjustment.id === activeId ? null : adjustment.id)}
+              className={`flex items-center gap-2 px-2 py-1.5 rounded-lg cursor-pointer text-xs ${adjustment.id === activeId
+                ? 'bg-banana-500/15 text-white border border-banana-500/40'
+                : 'text-gray-300 border border-transparent hover:bg-white/5'}`}
+            >
+              <span className="text-gray-400">{MASK_ICONS[adjustment.mask.type]}</span>
+              <span className="flex-1 truncate">{adjustment.name}</span>
+              {adjustment.invert && <span className="text-[10px] text-gray-500">Inverted</span>}
+              <button
+                onClick={(e) => { e.stopPropagation(); handleDelete(adjustment); }}
+                disabled={disabled}
+                title={`Delete ${adjustment.name}`}
+                className="text-gray-500 hover:text-red-400 disabled:opacity-50"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {active && (
+        <div className="space-y-3 pt-3 border-t border-dark-border">
+          {active.mask.type === 'brush' && (
+            <div className="space-y-2">
+              <div className="flex gap-1.5">
+                {[false, true].map(erase => (
+                  <button
+                    key={String(erase)}
+                    onClick={() => onBrushChange({ ...brush, erase })}
+                    className={`flex-1 px-2 py-1 rounded-lg border text-xs ${brush.erase === erase
+                      ? 'bg-banana-500 border-banana-500 text-black'
+                      : 'bg-black/30 border-dark-border text-gray-300 hover:border-banana-500/60'}`}
+                  >
+                    {erase ? 'Erase' : 'Paint'}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                Size
+                <input
+                  type="range"
+                  min={MIN_BRUSH_RADIUS}
+                  max={MAX_BRUSH_RADIUS}
+                  step={0.005}
+                  value={brush.radius}
+                  onChange={(e) => onBrushChange({ ...brush, radius: parseFloat(e.target.value) })}
+                  className="flex-1 accent-banana-500"
+                />
+              </label>
+              <button
+                onClick={() => active.mask.type === 'brush' && updateActive({ mask: { ...active.mask, strokes: [] } }, 'Clear mask')}
+                disabled={disabled || active.mask.strokes.length === 0}
+                className="text-xs text-gray-400 hover:text-banana-400 disabled:opacity-50 disabled:hover:text-gray-400"
+              >
+                Clear strokes
+              </button>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            Feather
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={1}
+              value={active.feather}
+              disabled={disabled}
+              onChange={(e) => updateActive({ feather: parseFloat(e.target.value) }, 'Mask feather')}
+              className="flex-1 accent-banana-500 disabled:opacity-50"
+            />
+            <span className="w-9 text-right tabular-nums">{active.feather}%</span>
+          </label>
+          <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={active.invert}
+              disabled={disabled}
+              onChange={(e) => updateActive({ invert: e.target.checked }, 'Invert mask')}
+              className="accent-banana-500"
+            />
+            Invert mask
+          </label>
+
+          {LOCAL_FIELDS.map(field => (
+            <AdjustmentSlider
+              key={field.key}
+              field={field}
+              value={active.settings[field.key as keyof LocalSettings]}
+              idPrefix="mask"
+              disabled={disabled}
+              onChange={(value) => updateActive({ settings: { ...active.settings, [field.key]: value } }, `Mask ${field.label.toLowerCase()}`)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaskPanel;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { PhotoItem } from '../types';
+import { SETTING_GROUPS, SettingKey, settingLabel } from '../services/filterSettings';
+
+interface PasteSettingsDialogProps {
+  title: string;
+  confirmLabel: string;
+  initialKeys: SettingKey[];
+  // Photos the settings can come from; omitted when pasting copied settings into the open photo
+  sources?: PhotoItem[];
+  sourceId?: string | null;   // null means the copied settings
+  hasCopiedSettings?: boolean;
+  onSourceChange?: (sourceId: string | null) => void;
+  onConfirm: (keys: SettingKey[]) => void;
+  onClose: () => void;
+}
+
+const PasteSettingsDialog: React.FC<PasteSettingsDialogProps> = ({
+  title,
+  confirmLabel,
+  initialKeys,
+  sources,
+  sourceId = null,
+  hasCopiedSettings,
+  onSourceChange,
+  onConfirm,
+  onClose
+}) => {
+  const [keys, setKeys] = useState<Set<SettingKey>>(() => new Set(initialKeys));
+
+  const toggleKey = (key: SettingKey) => {
+    setKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const toggleGroup = (groupKeys: SettingKey[]) => {
+    const allOn = groupKeys.every(key => keys.has(key));
+    setKeys(prev => {
+      const next = new Set(prev);
+      groupKeys.forEach(key => allOn ? next.delete(key) : next.add(key));
+      return next;
+    });
+  };
+
+  const allKeys = SETTING_GROUPS.flatMap(group => group.keys);
+  // Keeps the settings in their usual order rather than click order
+  const chosen = allKeys.filter(key => keys.has(key));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label={title}
+        className="w-full max-w-md bg-dark-surface border border-dark-border rounded-2xl p-6 space-y-5 shadow-2xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-semibold text-white">{title}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+          </button>
+        </div>
+
+        {sources && onSourceChange && (
+          <div className="space-y-2">
+            <label className="text-sm text-gray-300">Take settings from</label>
+            <select
+              value={sourceId ?? ''}
+              onChange={(e) => onSourceChange(e.target.value || null)}
+              className="w-full bg-black/30 border border-dark-border rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-banana-500"
+            >
+              {hasCopiedSettings && <option value="">Copied settings</option>}
+              {sources.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+            </select>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-gray-300 text-sm">Settings</span>
+            <div className="flex gap-3">
+              <button onClick={() => setKeys(new Set(allKeys))} className="text-gray-400 hover:text-banana-400">All</button>
+              <button onClick={() => setKeys(new Set())} className="text-gray-400 hover:text-banana-400">None</button>
+            </div>
+          </div>
+          {SETTING_GROUPS.map(group => (
+            <div key={group.label} className="space-y-1.5">
+              <label className="flex items-center gap-2 text-sm font-medium text-white cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={group.keys.every(key => keys.has(key))}
+                  onChange={() => toggleGroup(group.keys)}
+                  className="accent-banana-500"
+                />
+                {group.label}
+              </label>
+              {group.keys.length > 1 && (
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 pl-6">
+                  {group.keys.map(key => (
+                    <label key={key} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                      <input type="checkbox" checked={keys.has(key)} onChange={() => toggleKey(key)} className="accent-banana-500" />
+                      {settingLabel(key)}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4 border-t border-dark-border">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg border border-dark-border text-gray-300 hover:text-white hover:border-banana-500"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(chosen)}
+            disabled={chosen.length === 0}
+            className="px-4 py-1.5 text-sm font-bold rounded-lg bg-banana-500 hover:bg-banana-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PasteSettingsDialog;
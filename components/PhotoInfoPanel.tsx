@@ -0,0 +1,74 @@
+import React from 'react';
+import { ExifData } from '../types';
+
+interface PhotoInfoPanelProps {
+  exif: ExifData | null;
+}
+
+const formatExposureTime = (seconds: number) =>
+  seconds >= 1 ? `${seconds.toFixed(1).replace(/\.0$/, '')}s` : `1/${Math.round(1 / seconds)}s`;
+
+// EXIF dates look like "2024:05:01 10:20:30"
+const formatDate = (value: string) => {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2})/);
+  if (!match) return value;
+  const [, year, month, day, hours, minutes] = match;
+  return new Date(+year, +month - 1, +day, +hours, +minutes).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+const formatCoordinate = (value: number, positive: string, negative: string) =>
+  `${Math.abs(value).toFixed(5)}° ${value < 0 ? negative : positive}`;
+
+const PhotoInfoPanel: React.FC<PhotoInfoPanelProps> = ({ exif }) => {
+  if (!exif) {
+    return (
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold text-white">Photo Info</h4>
+        <p className="text-xs text-gray-500">No camera metadata in this photo.</p>
+      </div>
+    );
+  }
+
+  const camera = [exif.make, exif.model && exif.make && exif.model.startsWith(exif.make) ? exif.model.slice(exif.make.length).trim() : exif.model]
+    .filter(Boolean)
+    .join(' ');
+  const exposure = [
+    exif.exposureTime && formatExposureTime(exif.exposureTime),
+    exif.fNumber && `f/${exif.fNumber.toFixed(1).replace(/\.0$/, '')}`,
+    exif.iso && `ISO ${exif.iso}`,
+    exif.exposureBias && `${exif.exposureBias > 0 ? '+' : ''}${exif.exposureBias.toFixed(1)} EV`,
+  ].filter(Boolean).join(' · ');
+  const focal = exif.focalLength
+    ? `${Math.round(exif.focalLength)}mm${exif.focalLength35mm && exif.focalLength35mm !== Math.round(exif.focalLength) ? ` (${exif.focalLength35mm}mm equiv.)` : ''}`
+    : undefined;
+
+  const rows: [string, string | undefined][] = [
+    ['Camera', camera || undefined],
+    ['Lens', exif.lensModel],
+    ['Exposure', exposure || undefined],
+    ['Focal length', focal],
+    ['Taken', exif.dateTaken && formatDate(exif.dateTaken)],
+    ['Artist', exif.artist],
+    ['Copyright', exif.copyright],
+    ['Location', exif.gps && `${formatCoordinate(exif.gps.latitude, 'N', 'S')}, ${formatCoordinate(exif.gps.longitude, 'E', 'W')}`],
+  ];
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold text-white">Photo Info</h4>
+      <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs">
+        {rows.filter(([, value]) => value).map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-gray-500">{label}</dt>
+            <dd className="text-gray-200 truncate" title={value}>{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+      {exif.gps && (
+        <p className="text-[11px] text-gray-500">This photo records where it was taken. Choose whether exports keep the location in Export Settings.</p>
+      )}
+    </div>
+  );
+};
+
+export default PhotoInfoPanel;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { ColorLabel, PhotoItem } from '../types';
+import { COLOR_LABELS, MAX_RATING, mergeTags, parseTags } from '../services/collectionService';
+
+export const labelSwatches: Record<ColorLabel, string> = {
+  red: 'bg-red-500',
+  yellow: 'bg-yellow-400',
+  green: 'bg-green-500',
+  blue: 'bg-sky-500',
+  purple: 'bg-purple-500',
+};
+
+interface StarRatingProps {
+  rating: number;
+  onChange: (rating: number) => void;
+}
+
+// Clicking the current rating again clears it
+export const StarRating: React.FC<StarRatingProps> = ({ rating, onChange }) => (
+  <div className="flex" role="radiogroup" aria-label="Rating">
+    {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map(star => (
+      <button
+        key={star}
+        role="radio"
+        aria-checked={rating === star}
+        onClick={() => onChange(rating === star ? 0 : star)}
+        title={`${star} star${star === 1 ? '' : 's'}`}
+        className={`px-0.5 text-sm leading-none ${star <= rating ? 'text-banana-400' : 'text-gray-600 hover:text-gray-400'}`}
+      >
+        ★
+      </button>
+    ))}
+  </div>
+);
+
+interface LabelPickerProps {
+  label: ColorLabel | null;
+  onChange: (label: ColorLabel | null) => void;
+}
+
+export const LabelPicker: React.FC<LabelPickerProps> = ({ label, onChange }) => (
+  <div className="flex items-center gap-1" role="radiogroup" aria-label="Color label">
+    {COLOR_LABELS.map(option => (
+      <button
+        key={option.key}
+        role="radio"
+        aria-checked={label === option.key}
+        onClick={() => onChange(label === option.key ? null : option.key)}
+        title={option.label}
+        className={`w-3.5 h-3.5 rounded-full ${labelSwatches[option.key]} ${label === option.key ? 'ring-2 ring-white ring-offset-1 ring-offset-dark-surface' : 'opacity-30 hover:opacity-70'}`}
+      />
+    ))}
+  </div>
+);
+
+interface PhotoLibraryDetailsProps {
+  item: PhotoItem;
+  onRename: (name: string) => void;
+  onRate: (rating: number) => void;
+  onLabel: (label: ColorLabel | null) => void;
+  onTagsChange: (tags: string[]) => void;
+}
+
+// Name, rating, label and tags shown under a collection photo, all editable in place
+const PhotoLibraryDetails: React.FC<PhotoLibraryDetailsProps> = ({ item, onRename, onRate, onLabel, onTagsChange }) => {
+  const [draftName, setDraftName] = useState<string | null>(null); // Set while renaming
+  const [draftTags, setDraftTags] = useState<string | null>(null); // Set while adding tags
+  const tags = item.tags ?? [];
+
+  const commitName = () => {
+    if (draftName !== null && draftName.trim() && draftName.trim() !== item.name) onRename(draftName.trim());
+    setDraftName(null);
+  };
+
+  const commitTags = () => {
+    if (draftTags?.trim()) onTagsChange(mergeTags(tags, parseTags(draftTags)));
+    setDraftTags(null);
+  };
+
+  return (
+    <div className="p-3 space-y-2">
+      {draftName !== null ? (
+        <input
+          autoFocus
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitName();
+            if (e.key === 'Escape') setDraftName(null);
+          }}
+          aria-label="Photo name"
+          className="w-full bg-black/30 border border-banana-500 rounded px-1.5 py-0.5 text-sm text-white focus:outline-none"
+        />
+      ) : (
+        <button
+          onClick={() => setDraftName(item.name)}
+          title="Rename"
+          className="block w-full text-left text-white font-medium truncate hover:text-banana-400"
+        >
+          {item.name}
+        </button>
+      )}
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">{new Date(item.timestamp).toLocaleDateString()}</p>
+        <LabelPicker label={item.label ?? null} onChange={onLabel} />
+      </div>
+      <StarRating rating={item.rating ?? 0} onChange={onRate} />
+      <div className="flex flex-wrap items-center gap-1">
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-black/30 border border-dark-border text-xs text-gray-300">
+            {tag}
+            <button
+              onClick={() => onTagsChange(tags.filter(t => t !== tag))}
+              title={`Remove tag "${tag}"`}
+              className="text-gray-500 hover:text-white"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {draftTags !== null ? (
+          <input
+            autoFocus
+            value={draftTags}
+            placeholder="tag, another"
+            onChange={(e) => setDraftTags(e.target.value)}
+            onBlur={commitTags}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitTags();
+              if (e.key === 'Escape') setDraftTags(null);
+            }}
+            aria-label="New tags"
+            className="w-28 bg-black/30 border border-banana-500 rounded-full px-2 py-0.5 text-xs text-white focus:outline-none"
+          />
+        ) : (
+          <button onClick={() => setDraftTags('')} className="px-2 py-0.5 text-xs text-gray-500 hover:text-banana-400">
+            + Tag
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PhotoLibraryDetails;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Preset } from '../types';
+
+interface PresetPanelProps {
+  presets: Preset[];
+  canSave: boolean;
+  onApply: (preset: Preset) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  disabled?: boolean;
+}
+
+const PresetPanel: React.FC<PresetPanelProps> = ({ presets, canSave, onApply, onSave, onDelete, onImport, onExport, disabled }) => {
+  const [newName, setNewName] = useState('');
+
+  const handleSave = () => {
+    onSave(newName);
+    setNewName('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-white">Presets</h4>
+        <div className="flex items-center gap-2 text-xs">
+          <label className="text-gray-400 hover:text-banana-400 cursor-pointer" title="Import presets from a .json file">
+            Import
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files && e.target.files[0]) onImport(e.target.files[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button
+            onClick={onExport}
+            disabled={presets.length === 0}
+            className="text-gray-400 hover:text-banana-400 disabled:opacity-50 disabled:hover:text-gray-400"
+            title="Export all presets as a .json file"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="Name this look"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && canSave && !disabled) handleSave(); }}
+          className="flex-1 min-w-0 bg-black/30 border border-dark-border rounded-lg px-2 py-1.5 text-xs text-white focus:outline-none focus:border-banana-500"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!canSave || disabled}
+          className="px-3 py-1.5 text-xs font-medium rounded-lg bg-banana-500 hover:bg-banana-600 text-white disabled:opacity-50 disabled:hover:bg-banana-500"
+        >
+          Save
+        </button>
+      </div>
+
+      {presets.length === 0 ? (
+        <p className="text-xs text-gray-500">Save a look you like to reuse it on other photos.</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-2 max-h-72 overflow-y-auto pr-1">
+          {presets.map(preset => (
+            <div key={preset.id} className="relative group">
+              <button
+                onClick={() => onApply(preset)}
+                disabled={disabled}
+                title={preset.reasoning ?? preset.prompt ?? preset.name}
+                className="w-full text-left rounded-lg overflow-hidden border border-dark-border hover:border-banana-500 transition-colors disabled:opacity-50"
+              >
+                <div className="aspect-square bg-black/40">
+                  {preset.thumbnail && <img src={preset.thumbnail} alt={preset.name} className="w-full h-full object-cover" />}
+                </div>
+                <p className="px-2 py-1 text-xs text-gray-200 truncate">{preset.name}</p>
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm(`Delete preset "${preset.name}"?`)) onDelete(preset.id);
+                }}
+                title="Delete preset"
+                className="absolute top-1 right-1 bg-black/60 hover:bg-red-500 text-white rounded-full p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresetPanel;
@@ -0,0 +1,69 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { FilterSettings, Geometry } from '../types';
+import { loadImage, renderToCanvas } from '../services/renderPipeline';
+import { frameSize, isIdentityGeometry } from '../services/geometry';
+import { getPreviewUrl, previewSize } from '../services/previewService';
+
+interface ProcessedImageProps {
+  src: string;
+  settings: FilterSettings;
+  geometry?: Geometry;
+  maxSize?: number;   // Long edge of the rendered pixels; keep small for thumbnails
+  alt?: string;
+  className?: string;
+  onRender?: (imageData: ImageData) => void; // Called with the processed pixels after each render
+  onSourceSize?: (width: number, height: number) => void; // Called with the decoded source's size; a preview keeps the original's shape
+}
+
+// Share of the source's long edge that the cropped output's long edge spans
+const cropScale = (image: HTMLImageElement, geometry: Geometry) => {
+  const frame = frameSize(image.naturalWidth, image.naturalHeight, geometry);
+  const longEdge = Math.max(frame.width * geometry.crop.width, frame.height * geometry.crop.height);
+  return longEdge / Math.max(image.naturalWidth, image.naturalHeight);
+};
+
+const ProcessedImage: React.FC<ProcessedImageProps> = ({ src, settings, geometry, maxSize, alt, className, onRender, onSourceSize }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Tagged with its source so a new photo never renders with the last one's pixels
+  const [loaded, setLoaded] = useState<{ src: string; image: HTMLImageElement } | null>(null);
+  const image = loaded?.src === src ? loaded.image : null;
+
+  // Kept in a ref so an inline callback doesn't trigger a re-render of the pixels
+  const onRenderRef = useRef(onRender);
+  onRenderRef.current = onRender;
+  const onSourceSizeRef = useRef(onSourceSize);
+  onSourceSizeRef.current = onSourceSize;
+
+  // Bounded renders decode a downscaled preview; only unbounded ones touch the full-resolution original.
+  // A crop keeps part of the source, so it needs a larger preview to fill maxSize, or the original.
+  const scale = image && !isIdentityGeometry(geometry) ? cropScale(image, geometry!) : 1;
+  const sourceSize = maxSize ? previewSize(maxSize / scale) : Infinity;
+
+  // Changing the source size keeps showing the current pixels until the new ones are ready
+  useEffect(() => {
+    let cancelled = false;
+    getPreviewUrl(src, sourceSize)
+      .then(loadImage)
+      .then((img) => { if (!cancelled) setLoaded({ src, image: img }); })
+      .catch((error) => console.error("Error loading image", error));
+    return () => { cancelled = true; };
+  }, [src, sourceSize]);
+
+  useEffect(() => {
+    if (image) onSourceSizeRef.current?.(image.naturalWidth, image.naturalHeight);
+  }, [image]);
+
+  useEffect(() => {
+    if (!image || !canvasRef.current) return;
+    renderToCanvas(image, settings, {
+      maxSize,
+      geometry,
+      target: canvasRef.current,
+      onPixels: (imageData) => onRenderRef.current?.(imageData)
+    });
+  }, [image, settings, geometry, maxSize]);
+
+  return <canvas ref={canvasRef} role="img" aria-label={alt} className={className} />;
+};
+
+export default ProcessedImage;
@@ -0,0 +1,74 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RefinementTurn } from '../types';
+
+interface RefinementChatProps {
+  turns: RefinementTurn[];
+  onSend: (prompt: string) => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+const RefinementChat: React.FC<RefinementChatProps> = ({ turns, onSend, onClear, disabled }) => {
+  const [draft, setDraft] = useState('');
+  const threadRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest reply in view
+  useEffect(() => {
+    threadRef.current?.scrollTo({ top: threadRef.current.scrollHeight });
+  }, [turns.length]);
+
+  const handleSend = () => {
+    if (!draft.trim() || disabled) return;
+    onSend(draft.trim());
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-white">Refine</h4>
+        {turns.length > 0 && (
+          <button onClick={onClear} disabled={disabled} className="text-xs text-gray-400 hover:text-white disabled:opacity-50">
+            New conversation
+          </button>
+        )}
+      </div>
+
+      {turns.length > 0 && (
+        <div ref={threadRef} className="max-h-56 overflow-y-auto space-y-2 pr-1">
+          {turns.map((turn, index) => (
+            <React.Fragment key={index}>
+              <div className="flex justify-end">
+                <p className="max-w-[80%] bg-banana-500/20 text-banana-100 text-sm px-3 py-2 rounded-2xl rounded-br-sm">{turn.prompt}</p>
+              </div>
+              <div className="flex justify-start">
+                <p className="max-w-[80%] bg-black/30 text-gray-300 text-sm px-3 py-2 rounded-2xl rounded-bl-sm border border-dark-border">{turn.reasoning}</p>
+              </div>
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder={turns.length > 0 ? "Follow up, e.g. 'a bit warmer, less contrast'" : "Adjust the current look, e.g. 'tone down the saturation'"}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSend(); }}
+          disabled={disabled}
+          className="flex-1 min-w-0 bg-black/30 border border-dark-border rounded-xl px-4 py-2 text-sm text-white focus:outline-none focus:border-banana-500 transition-colors disabled:opacity-50"
+        />
+        <button
+          onClick={handleSend}
+          disabled={disabled || !draft.trim()}
+          className="px-4 py-2 bg-banana-500 hover:bg-banana-400 text-white text-sm font-medium rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Send
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RefinementChat;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { AiPreferences, ShortcutOverrides } from '../types';
+import { ENHANCEMENT_PROVIDERS, getEnhancementProvider } from '../services/enhancementService';
+import ShortcutSettings from './ShortcutSettings';
+
+interface SettingsViewProps {
+  ai: AiPreferences;
+  onAiChange: (ai: AiPreferences) => void;
+  shortcuts: ShortcutOverrides;
+  onShortcutsChange: (shortcuts: ShortcutOverrides) => void;
+}
+
+const SettingsView: React.FC<SettingsViewProps> = ({ ai, onAiChange, shortcuts, onShortcutsChange }) => {
+  const selected = getEnhancementProvider(ai.provider);
+
+  return (
+    <div className="p-8 w-full max-w-3xl mx-auto space-y-8">
+      <div>
+        <h2 className="text-3xl font-bold text-white">Settings</h2>
+        <p className="text-gray-400">Preferences are saved in this browser.</p>
+      </div>
+
+      <section className="bg-dark-surface p-6 rounded-2xl border border-dark-border space-y-5">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Enhancement Provider</h3>
+          <p className="text-sm text-gray-400">Who answers "Cast a Spell", for single photos and batches.</p>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          {ENHANCEMENT_PROVIDERS.map(provider => {
+            const unavailable = provider.unavailableReason();
+            const isSelected = provider.id === ai.provider;
+            return (
+              <button
+                key={provider.id}
+                onClick={() => onAiChange({ provider: provider.id, model: provider.models[0].id })}
+                className={`text-left p-4 rounded-xl border transition-colors ${isSelected
+                  ? 'border-banana-500 bg-banana-500/10'
+                  : 'border-dark-border bg-black/20 hover:border-banana-500/50'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-semibold text-white">{provider.label}</span>
+                  {unavailable && <span className="text-[11px] text-red-300">Unavailable</span>}
+                </div>
+                <p className="text-xs text-gray-400 mt-1">{provider.description}</p>
+                {unavailable && <p className="text-xs text-red-300 mt-2">{unavailable}</p>}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="enhancement-model" className="text-sm text-gray-300">Model</label>
+          <select
+            id="enhancement-model"
+            value={ai.model}
+            onChange={(e) => onAiChange({ ...ai, model: e.target.value })}
+            className="w-full bg-black/30 border border-dark-border rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-banana-500"
+          >
+            {selected.models.map(model => (
+              <option key={model.id} value={model.id}>{model.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500">{selected.models.find(model => model.id === ai.model)?.description}</p>
+        </div>
+      </section>
+
+      <ShortcutSettings overrides={shortcuts} onChange={onShortcutsChange} />
+    </div>
+  );
+};
+
+export default SettingsView;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { CommandId, ShortcutOverrides } from '../types';
+import { COMMANDS, assignShortcut, comboFromEvent, findCommand, resolveShortcuts } from '../services/commands';
+
+interface ShortcutSettingsProps {
+  overrides: ShortcutOverrides;
+  onChange: (overrides: ShortcutOverrides) => void;
+}
+
+const ShortcutSettings: React.FC<ShortcutSettingsProps> = ({ overrides, onChange }) => {
+  const [recording, setRecording] = useState<CommandId | null>(null);
+  const [notice, setNotice] = useState('');
+  const shortcuts = resolveShortcuts(overrides);
+
+  // The next key combo pressed on the focused button becomes the shortcut; Escape cancels
+  const handleRecordKey = (id: CommandId, e: React.KeyboardEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      setRecording(null);
+      return;
+    }
+    const combo = comboFromEvent(e);
+    if (!combo) return;
+    const previous = findCommand(combo, shortcuts);
+    setNotice(previous && previous.id !== id ? `${combo} was removed from "${previous.label}".` : '');
+    onChange(assignShortcut(overrides, id, combo));
+    setRecording(null);
+  };
+
+  return (
+    <section className="bg-dark-surface p-6 rounded-2xl border border-dark-border space-y-5">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Keyboard Shortcuts</h3>
+          <p className="text-sm text-gray-400">Press Ctrl+K anywhere to search every command. Ctrl also means Cmd on a Mac.</p>
+        </div>
+        <button
+          onClick={() => { onChange({}); setNotice(''); }}
+          disabled={Object.keys(overrides).length === 0}
+          className="shrink-0 text-xs text-gray-400 hover:text-banana-400 disabled:opacity-50 disabled:hover:text-gray-400"
+        >
+          Reset all
+        </button>
+      </div>
+
+      {notice && <p className="text-xs text-banana-400">{notice}</p>}
+
+      <div className="divide-y divide-dark-border">
+        {COMMANDS.map(command => (
+          <div key={command.id} className="flex items-center justify-between gap-3 py-2">
+            <span className="text-sm text-gray-300">{command.label}</span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setRecording(recording === command.id ? null : command.id)}
+                onKeyDown={(e) => { if (recording === command.id) handleRecordKey(command.id, e); }}
+                onBlur={() => { if (recording === command.id) setRecording(null); }}
+                title="Click, then press the new shortcut"
+                className={`min-w-[7rem] px-2 py-1 rounded-lg border text-xs text-center ${recording === command.id
+                  ? 'border-banana-500 text-banana-400'
+                  : 'border-dark-border text-gray-300 hover:border-banana-500/50'}`}
+              >
+                {recording === command.id ? 'Press keys...' : shortcuts[command.id].join(' / ') || 'None'}
+              </button>
+              <button
+                onClick={() => onChange(assignShortcut(overrides, command.id, null))}
+                disabled={shortcuts[command.id].length === 0}
+                title="Remove shortcut"
+                className="text-gray-500 hover:text-white disabled:opacity-30 disabled:hover:text-gray-500"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default ShortcutSettings;
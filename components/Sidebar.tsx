@@ -1,9 +1,10 @@
 import React from 'react';
 import { ViewMode } from '../types';
+import { formatRoute } from '../services/router';
 
 interface SidebarProps {
   currentView: ViewMode;
-  setView: (view: ViewMode) => void;
+  openPhotoId: string | null; // Collection photo open in the editor, which Home links back to
   isOpen: boolean;       // Mobile state
   toggleOpen: () => void; // Mobile toggle
   isCollapsed: boolean;  // Desktop state
@@ -12,13 +13,14 @@ interface SidebarProps {
 
 const Sidebar: React.FC<SidebarProps> = ({ 
   currentView, 
-  setView, 
+  openPhotoId,
   isOpen, 
   toggleOpen,
   isCollapsed,
   toggleCollapse
 }) => {
-  
+  const homeHref = formatRoute({ view: ViewMode.HOME, photoId: openPhotoId ?? undefined });
+
   const menuItems = [
     { id: ViewMode.COLLECTION, label: 'My Collection', icon: (
       <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="18" height="18" rx="2" ry="2"/><circle cx="8.5" cy="8.5" r="1.5"/><polyline points="21 15 16 10 5 21"/></svg>
@@ -29,6 +31,9 @@ const Sidebar: React.FC<SidebarProps> = ({
     { id: ViewMode.EXPORT, label: 'Export', icon: (
       <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" y1="3" x2="12" y2="15"/></svg>
     )},
+    { id: ViewMode.SETTINGS, label: 'Settings', icon: (
+      <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="3"/><path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z"/></svg>
+    )},
   ];
 
   return (
@@ -66,31 +71,30 @@ const Sidebar: React.FC<SidebarProps> = ({
              <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m15 18-6-6 6-6"/></svg>
           </button>
 
-          <h1 
-            className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-banana-400 to-banana-600 mb-8 cursor-pointer pr-8"
-            onClick={() => setView(ViewMode.HOME)}
-          >
-            BananaLens
+          <h1 className="text-2xl font-bold mb-8 pr-8">
+            <a href={homeHref} className="text-transparent bg-clip-text bg-gradient-to-r from-banana-400 to-banana-600">
+              BananaLens
+            </a>
           </h1>
           
           <nav className="space-y-2">
-            <button
-               onClick={() => setView(ViewMode.HOME)}
+            <a
+               href={homeHref}
                className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-colors ${currentView === ViewMode.HOME ? 'bg-banana-500 text-white' : 'text-gray-400 hover:bg-dark-border'}`}
             >
                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m3 9 9-7 9 7v11a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2z"/><polyline points="9 22 9 12 15 12 15 22"/></svg>
                <span>Home</span>
-            </button>
+            </a>
 
             {menuItems.map((item) => (
-              <button
+              <a
                 key={item.id}
-                onClick={() => setView(item.id as ViewMode)}
+                href={formatRoute({ view: item.id })}
                 className={`w-full flex items-center space-x-3 px-4 py-3 rounded-xl transition-colors ${currentView === item.id ? 'bg-banana-500 text-white' : 'text-gray-400 hover:bg-dark-border'}`}
               >
                 {item.icon}
                 <span>{item.label}</span>
-              </button>
+              </a>
             ))}
           </nav>
         </div>
@@ -0,0 +1,128 @@
+import { AnalysisResult, CurvePoint, SuggestedSettings, ToneCurves } from "../types";
+import { SETTING_FIELDS, clampSetting, defaultSettings } from "./filterSettings";
+import { identityCurve, sortCurvePoints } from "./toneCurve";
+import { EnhancementError } from "./enhancementProvider";
+
+/**
+ * Runtime checks for AI suggestions, which are untrusted input.
+ *
+ * Numbers are clamped to the ranges documented on `FilterSettings` and anything missing or
+ * non-numeric falls back to its default, so a suggestion is always a complete, renderable look.
+ * LUT fields are never taken from a suggestion; the AI doesn't know which LUTs are installed.
+ */
+
+const CURVE_CHANNELS: (keyof ToneCurves)[] = ["rgb", "red", "green", "blue"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === "string" ? parseFloat(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : undefined;
+};
+
+const validateCurve = (value: unknown): CurvePoint[] => {
+  if (!Array.isArray(value)) return identityCurve();
+  const points = value.flatMap((point) => {
+    const x = isRecord(point) ? toNumber(point.x) : undefined;
+    const y = isRecord(point) ? toNumber(point.y) : undefined;
+    return x === undefined || y === undefined ? [] : [{ x, y }];
+  });
+  const sorted = sortCurvePoints(points);
+  return sorted.length >= 2 ? sorted : identityCurve();
+};
+
+const validateSettings = (raw: Record<string, unknown>): SuggestedSettings => {
+  const { lutId: _lutId, lutIntensity: _lutIntensity, localAdjustments: _localAdjustments, ...defaults } = defaultSettings;
+  const settings: SuggestedSettings = { ...defaults, curves: { ...defaults.curves } };
+  for (const field of SETTING_FIELDS) {
+    const value = toNumber(raw[field.key]);
+    if (value !== undefined) settings[field.key] = clampSetting(field, value);
+  }
+  if (isRecord(raw.curves)) {
+    for (const channel of CURVE_CHANNELS) settings.curves[channel] = validateCurve(raw.curves[channel]);
+  }
+  // Levels that cross would invert the image
+  if (settings.blackPoint >= settings.whitePoint) {
+    settings.blackPoint = defaultSettings.blackPoint;
+    settings.whitePoint = defaultSettings.whitePoint;
+  }
+  return settings;
+};
+
+export const validateAnalysisResult = (raw: unknown): AnalysisResult => {
+  if (!isRecord(raw) || !isRecord(raw.suggestedSettings)) {
+    throw new EnhancementError("The reply has no suggestedSettings object.", "parse");
+  }
+  const suggested = raw.suggestedSettings;
+  if (!SETTING_FIELDS.some((field) => toNumber(suggested[field.key]) !== undefined) && !isRecord(suggested.curves)) {
+    throw new EnhancementError("suggestedSettings contains no usable values.", "parse");
+  }
+  const name = typeof raw.name === "string" ? raw.name.trim().slice(0, 40) : "";
+  return {
+    ...(name ? { name } : {}),
+    reasoning: typeof raw.reasoning === "string" && raw.reasoning.trim() ? raw.reasoning.trim() : "Applied a new look.",
+    suggestedSettings: validateSettings(suggested)
+  };
+};
+
+// Parses a model's text reply, tolerating a Markdown code fence around the JSON.
+const parseJson = (text: string | undefined): unknown => {
+  const json = text?.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  if (!json) throw new EnhancementError("The reply was empty.", "parse");
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new EnhancementError("The reply isn't valid JSON.", "parse");
+  }
+};
+
+export const parseAnalysisResponse = (text: string | undefined): AnalysisResult => validateAnalysisResult(parseJson(text));
+
+// Keeps every usable variant; the reply only fails when none of them is.
+export const parseVariantsResponse = (text: string | undefined): AnalysisResult[] => {
+  const raw = parseJson(text);
+  const list = Array.isArray(raw) ? raw : isRecord(raw) ? raw.variants : undefined;
+  if (!Array.isArray(list)) throw new EnhancementError("The reply has no variants list.", "parse");
+  const variants = list.flatMap((variant) => {
+    try {
+      return [validateAnalysisResult(variant)];
+    } catch {
+      return [];
+    }
+  });
+  if (variants.length === 0) throw new EnhancementError("None of the variants has usable settings.", "parse");
+  return variants;
+};
+
+/**
+ * Applies a refinement reply to `current`. Slider values in `adjustments` are deltas ("+10 warmth");
+ * curve channels, when present, replace the current ones.
+ */
+export const applyRefinement = (raw: unknown, current: SuggestedSettings): AnalysisResult => {
+  if (!isRecord(raw) || !isRecord(raw.adjustments)) {
+    throw new EnhancementError("The reply has no adjustments object.", "parse");
+  }
+  const adjustments = raw.adjustments;
+  const settings: SuggestedSettings = { ...current, curves: { ...current.curves } };
+  for (const field of SETTING_FIELDS) {
+    const delta = toNumber(adjustments[field.key]);
+    if (delta !== undefined) settings[field.key] = clampSetting(field, settings[field.key] + delta);
+  }
+  if (isRecord(adjustments.curves)) {
+    for (const channel of CURVE_CHANNELS) {
+      if (adjustments.curves[channel] !== undefined) settings.curves[channel] = validateCurve(adjustments.curves[channel]);
+    }
+  }
+  if (settings.blackPoint >= settings.whitePoint) {
+    settings.blackPoint = current.blackPoint;
+    settings.whitePoint = current.whitePoint;
+  }
+  return {
+    reasoning: typeof raw.reasoning === "string" && raw.reasoning.trim() ? raw.reasoning.trim() : "Adjusted the look.",
+    suggestedSettings: settings
+  };
+};
+
+export const parseRefinementResponse = (text: string | undefined, current: SuggestedSettings): AnalysisResult =>
+  applyRefinement(parseJson(text), current);
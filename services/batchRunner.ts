@@ -0,0 +1,50 @@
+/**
+ * Runs an async task over many items with a bounded number in flight.
+ * Failures are reported per item and never stop the rest of the batch.
+ * Aborting stops new items from starting; tasks already running receive the signal.
+ */
+
+export interface BatchCallbacks<T, R> {
+  onStart?: (item: T) => void;
+  onSuccess?: (item: T, result: R) => void;
+  onError?: (item: T, error: unknown) => void;
+}
+
+export interface BatchOptions<T, R> extends BatchCallbacks<T, R> {
+  concurrency: number;
+  signal?: AbortSignal;
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === "AbortError";
+
+// Throws an AbortError if the signal has fired; call after every await inside a task.
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException("The batch was cancelled.", "AbortError");
+};
+
+export const runBatch = async <T, R>(
+  items: T[],
+  task: (item: T, signal: AbortSignal) => Promise<R>,
+  options: BatchOptions<T, R>
+): Promise<void> => {
+  const signal = options.signal ?? new AbortController().signal;
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length && !signal.aborted) {
+      const item = items[next++];
+      options.onStart?.(item);
+      try {
+        const result = await task(item, signal);
+        throwIfAborted(signal);
+        options.onSuccess?.(item, result);
+      } catch (error) {
+        options.onError?.(item, error);
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(options.concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+};
@@ -0,0 +1,97 @@
+import { Album, ColorLabel, PhotoItem } from "../types";
+import { defaultSettings } from "./filterSettings";
+import { isIdentityGeometry } from "./geometry";
+
+/**
+ * Organizing the collection: albums, ratings, color labels and tags, and the
+ * search, filter and sort applied to the collection grid.
+ */
+
+export const MAX_RATING = 5;
+
+export const COLOR_LABELS: { key: ColorLabel; label: string }[] = [
+  { key: "red", label: "Red" },
+  { key: "yellow", label: "Yellow" },
+  { key: "green", label: "Green" },
+  { key: "blue", label: "Blue" },
+  { key: "purple", label: "Purple" }
+];
+
+export type CollectionSort = "newest" | "oldest" | "name" | "edited" | "unedited";
+
+export const COLLECTION_SORTS: { key: CollectionSort; label: string }[] = [
+  { key: "newest", label: "Newest first" },
+  { key: "oldest", label: "Oldest first" },
+  { key: "name", label: "Name" },
+  { key: "edited", label: "Edited first" },
+  { key: "unedited", label: "Unedited first" }
+];
+
+export interface CollectionFilter {
+  search: string;               // Matches names and tags, case-insensitive
+  minRating: number;            // 0 shows unrated photos too
+  label: ColorLabel | null;
+  albumId: string | null;       // null shows every photo
+  sort: CollectionSort;
+}
+
+export const defaultCollectionFilter: CollectionFilter = {
+  search: "",
+  minRating: 0,
+  label: null,
+  albumId: null,
+  sort: "newest"
+};
+
+const createAlbumId = () => "album-" + Date.now().toString() + Math.random().toString().slice(2, 8);
+
+export const createAlbum = (name: string): Album => ({
+  id: createAlbumId(),
+  name: name.trim() || "Untitled Album",
+  createdAt: Date.now()
+});
+
+export const isCollectionFiltered = (filter: CollectionFilter) =>
+  filter.search.trim() !== "" || filter.minRating > 0 || filter.label !== null || filter.albumId !== null;
+
+// Splits "Beach, summer ,beach" into ["beach", "summer"]
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+
+export const mergeTags = (tags: string[] | undefined, added: string[]): string[] =>
+  Array.from(new Set([...(tags ?? []), ...added]));
+
+// A photo counts as edited once its look or its crop differs from a fresh import
+export const isEdited = (item: PhotoItem): boolean =>
+  !isIdentityGeometry(item.geometry) ||
+  (Object.keys(defaultSettings) as (keyof typeof defaultSettings)[]).some(
+    (key) => JSON.stringify(item.settings[key]) !== JSON.stringify(defaultSettings[key])
+  );
+
+const compareItems = (sort: CollectionSort) => (a: PhotoItem, b: PhotoItem): number => {
+  switch (sort) {
+    case "oldest":
+      return a.timestamp - b.timestamp;
+    case "name":
+      return a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: "base" });
+    case "edited":
+    case "unedited": {
+      const order = Number(isEdited(b)) - Number(isEdited(a));
+      return (sort === "edited" ? order : -order) || b.timestamp - a.timestamp;
+    }
+    default:
+      return b.timestamp - a.timestamp;
+  }
+};
+
+export const filterCollection = (items: PhotoItem[], filter: CollectionFilter): PhotoItem[] => {
+  const search = filter.search.trim().toLowerCase();
+  return items
+    .filter((item) =>
+      (!search || item.name.toLowerCase().includes(search) || (item.tags ?? []).some((tag) => tag.includes(search))) &&
+      (item.rating ?? 0) >= filter.minRating &&
+      (!filter.label || item.label === filter.label) &&
+      (!filter.albumId || (item.albumIds ?? []).includes(filter.albumId))
+    )
+    .sort(compareItems(filter.sort));
+};
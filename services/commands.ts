@@ -0,0 +1,108 @@
+import { CommandId, ShortcutOverrides } from "../types";
+
+/**
+ * The app's commands, their default keyboard shortcuts, and matching of key presses to them.
+ *
+ * Commands are declared here once; App supplies what each one does through `CommandHandler`s,
+ * and both the keyboard and the command palette run them through those handlers.
+ * Combos are written "Ctrl+Shift+Z": modifiers in Ctrl, Alt, Shift order, then the key.
+ * Ctrl also matches Cmd on macOS.
+ */
+
+export type CommandGroup = "Editor" | "Collection" | "Navigate" | "General";
+
+export interface CommandDefinition {
+  id: CommandId;
+  label: string;
+  group: CommandGroup;
+  shortcuts: string[];  // Defaults
+  hold?: boolean;       // Active only while the key is held down
+  inTextFields?: boolean; // Also fires while typing in a text field
+}
+
+export interface CommandHandler {
+  run: () => void;
+  release?: () => void; // Key released, for hold commands
+  enabled: boolean;
+}
+
+export const COMMANDS: CommandDefinition[] = [
+  { id: "palette", label: "Open command palette", group: "General", shortcuts: ["Ctrl+K"], inTextFields: true },
+  { id: "spell", label: "Cast a Spell", group: "Editor", shortcuts: ["Ctrl+Enter"], inTextFields: true },
+  { id: "variants", label: "Suggest look variations", group: "Editor", shortcuts: ["V"] },
+  { id: "compare", label: "Toggle before/after comparison", group: "Editor", shortcuts: ["C"] },
+  { id: "holdOriginal", label: "Show original while held", group: "Editor", shortcuts: ["\\"], hold: true },
+  { id: "crop", label: "Crop & rotate", group: "Editor", shortcuts: ["R"] },
+  { id: "maskOverlay", label: "Show mask overlay", group: "Editor", shortcuts: ["O"] },
+  { id: "save", label: "Save to collection", group: "Editor", shortcuts: ["Ctrl+S"], inTextFields: true },
+  { id: "exportImage", label: "Export this photo", group: "Editor", shortcuts: ["Ctrl+E"], inTextFields: true },
+  { id: "exportSettings", label: "Export settings", group: "Editor", shortcuts: [] },
+  { id: "uploadNew", label: "Upload new photo", group: "Editor", shortcuts: ["Ctrl+O"] },
+  { id: "undo", label: "Undo", group: "Editor", shortcuts: ["Ctrl+Z"] },
+  { id: "redo", label: "Redo", group: "Editor", shortcuts: ["Ctrl+Shift+Z", "Ctrl+Y"] },
+  { id: "copySettings", label: "Copy settings", group: "Editor", shortcuts: ["Ctrl+Shift+C"] },
+  { id: "pasteSettings", label: "Paste settings", group: "Editor", shortcuts: ["Ctrl+Shift+V"] },
+  { id: "previousPhoto", label: "Previous collection photo", group: "Collection", shortcuts: ["ArrowLeft"] },
+  { id: "nextPhoto", label: "Next collection photo", group: "Collection", shortcuts: ["ArrowRight"] },
+  { id: "goHome", label: "Go to editor", group: "Navigate", shortcuts: [] },
+  { id: "goCollection", label: "Go to collection", group: "Navigate", shortcuts: [] },
+  { id: "goImport", label: "Go to import", group: "Navigate", shortcuts: [] },
+  { id: "goExport", label: "Go to export", group: "Navigate", shortcuts: [] },
+  { id: "goSettings", label: "Go to settings", group: "Navigate", shortcuts: [] }
+];
+
+const MODIFIER_KEYS = new Set(["Control", "Meta", "Alt", "Shift", "AltGraph", "CapsLock"]);
+
+const KEY_NAMES: Record<string, string> = { " ": "Space", Esc: "Escape", Left: "ArrowLeft", Right: "ArrowRight", Up: "ArrowUp", Down: "ArrowDown" };
+
+/** The combo for a key press, or null while only modifiers are down. */
+export const comboFromEvent = (e: Pick<KeyboardEvent, "key" | "ctrlKey" | "metaKey" | "altKey" | "shiftKey">): string | null => {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  const key = KEY_NAMES[e.key] ?? (e.key.length === 1 ? e.key.toUpperCase() : e.key);
+  return [e.ctrlKey || e.metaKey ? "Ctrl" : "", e.altKey ? "Alt" : "", e.shiftKey ? "Shift" : "", key].filter(Boolean).join("+");
+};
+
+export const resolveShortcuts = (overrides: ShortcutOverrides): Record<CommandId, string[]> =>
+  Object.fromEntries(COMMANDS.map((command) => [command.id, overrides[command.id] ?? command.shortcuts])) as Record<CommandId, string[]>;
+
+export const findCommand = (combo: string, shortcuts: Record<CommandId, string[]>): CommandDefinition | undefined =>
+  COMMANDS.find((command) => shortcuts[command.id].includes(combo));
+
+/**
+ * Assigns `combo` to one command and takes it away from any other, returning the new overrides.
+ * Overrides equal to the defaults are dropped so later changes to the defaults still reach the user.
+ */
+export const assignShortcut = (overrides: ShortcutOverrides, id: CommandId, combo: string | null): ShortcutOverrides => {
+  const current = resolveShortcuts(overrides);
+  const next: ShortcutOverrides = {};
+  for (const command of COMMANDS) {
+    let combos = current[command.id];
+    if (command.id === id) combos = combo ? [combo] : [];
+    else if (combo) combos = combos.filter((existing) => existing !== combo);
+    if (combos.join() !== command.shortcuts.join()) next[command.id] = combos;
+  }
+  return next;
+};
+
+// Keeps only known commands with string combos, for overrides read from storage
+export const normalizeShortcutOverrides = (stored: unknown): ShortcutOverrides => {
+  if (typeof stored !== "object" || stored === null) return {};
+  const overrides: ShortcutOverrides = {};
+  for (const command of COMMANDS) {
+    const combos = (stored as Record<string, unknown>)[command.id];
+    if (Array.isArray(combos)) overrides[command.id] = combos.filter((combo): combo is string => typeof combo === "string" && combo !== "");
+  }
+  return overrides;
+};
+
+const NON_TEXT_INPUTS = new Set(["checkbox", "radio", "button", "submit", "reset", "file", "color"]);
+
+// Key presses in these go to the field itself; sliders only keep their own arrow keys
+export const isTextField = (target: EventTarget | null, combo: string): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.tagName === "TEXTAREA" || target.tagName === "SELECT") return true;
+  if (target.tagName !== "INPUT") return false;
+  const type = (target as HTMLInputElement).type;
+  if (type === "range") return combo.startsWith("Arrow");
+  return !NON_TEXT_INPUTS.has(type);
+};
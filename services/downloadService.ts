@@ -0,0 +1,16 @@
+// Triggers a browser download for a URL (data or object URL).
+export const downloadUrl = (url: string, filename: string) => {
+  const link = document.createElement("a");
+  link.download = filename;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  // Some browsers read the URL asynchronously after the click, so revoke a little later
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,64 @@
+import { EditHistory, FilterSettings, HistoryEntry, HistorySource } from "../types";
+
+// Older entries beyond this are dropped from the start of the list.
+const MAX_ENTRIES = 100;
+
+// Consecutive manual changes to the same control within this window collapse into one entry.
+const COALESCE_WINDOW_MS = 1500;
+
+export interface HistoryChange {
+  source: HistorySource;
+  label: string;
+  detail?: string;
+  settings: FilterSettings;
+}
+
+const createEntry = (change: HistoryChange): HistoryEntry => ({
+  ...change,
+  id: Date.now().toString() + Math.random().toString().slice(2, 6),
+  timestamp: Date.now()
+});
+
+export const createHistory = (settings: FilterSettings, label: string = "Original"): EditHistory => ({
+  entries: [createEntry({ source: "initial", label, settings })],
+  index: 0
+});
+
+export const currentEntry = (history: EditHistory): HistoryEntry => history.entries[history.index];
+
+export const canUndo = (history: EditHistory) => history.index > 0;
+
+export const canRedo = (history: EditHistory) => history.index < history.entries.length - 1;
+
+/**
+ * Appends a change after the current entry, discarding anything that could have been redone.
+ * Slider drags fire many changes, so repeated manual edits of the same control are merged.
+ */
+export const pushHistory = (history: EditHistory, change: HistoryChange): EditHistory => {
+  const current = currentEntry(history);
+  const kept = history.entries.slice(0, history.index + 1);
+
+  const shouldCoalesce =
+    change.source === "manual" &&
+    current.source === "manual" &&
+    current.label === change.label &&
+    history.index === history.entries.length - 1 &&
+    Date.now() - current.timestamp < COALESCE_WINDOW_MS;
+
+  if (shouldCoalesce) {
+    kept[kept.length - 1] = { ...current, settings: change.settings, timestamp: Date.now() };
+    return { entries: kept, index: history.index };
+  }
+
+  const entries = [...kept, createEntry(change)].slice(-MAX_ENTRIES);
+  return { entries, index: entries.length - 1 };
+};
+
+export const jumpTo = (history: EditHistory, index: number): EditHistory => ({
+  ...history,
+  index: Math.max(0, Math.min(history.entries.length - 1, index))
+});
+
+export const undo = (history: EditHistory): EditHistory => jumpTo(history, history.index - 1);
+
+export const redo = (history: EditHistory): EditHistory => jumpTo(history, history.index + 1);
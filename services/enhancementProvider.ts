@@ -0,0 +1,56 @@
+import { AnalysisResult, EnhancementProviderId, RefinementTurn, SuggestedSettings } from "../types";
+import { ImageStats } from "./imageStats";
+
+/**
+ * Something that can look at a photo and suggest filter settings for it.
+ *
+ * Providers get the image as base64 plus whatever the app already knows about it, and return an
+ * `AnalysisResult`; the caller merges the suggestion into the photo's settings and history.
+ */
+
+export type EnhancementErrorKind = "unavailable" | "quota" | "safety" | "network" | "parse" | "unknown";
+
+export class EnhancementError extends Error {
+  kind: EnhancementErrorKind;
+
+  constructor(message: string, kind: EnhancementErrorKind) {
+    super(message);
+    this.name = "EnhancementError";
+    this.kind = kind;
+  }
+}
+
+export interface EnhancementRequest {
+  imageBase64: string;
+  prompt: string;                 // Empty for a plain auto-enhance
+  referenceImageBase64?: string;  // Optional style reference
+  stats?: ImageStats;             // Measured from the original, when available
+  model: string;
+  signal?: AbortSignal;           // Abandons the request, e.g. when a batch is cancelled
+}
+
+// A follow-up like "a bit warmer", answered relative to where the look is now
+export interface RefinementRequest extends EnhancementRequest {
+  current: SuggestedSettings;
+  conversation: RefinementTurn[]; // Earlier turns, oldest first
+}
+
+export interface EnhancementModel {
+  id: string;
+  label: string;
+  description: string;
+}
+
+export interface EnhancementProvider {
+  id: EnhancementProviderId;
+  label: string;
+  description: string;
+  models: EnhancementModel[];
+  // Why the provider can't run right now (no API key, offline); undefined when it is ready
+  unavailableReason: () => string | undefined;
+  analyze: (request: EnhancementRequest) => Promise<AnalysisResult>;
+  // Up to `count` clearly different named looks for the same photo
+  suggestVariants: (request: EnhancementRequest, count: number) => Promise<AnalysisResult[]>;
+  // The complete look after applying the requested change to `current`
+  refine: (request: RefinementRequest) => Promise<AnalysisResult>;
+}
@@ -0,0 +1,94 @@
+import { AiPreferences, AnalysisResult, EnhancementProviderId, RefinementTurn, SuggestedSettings } from "../types";
+import { EnhancementError, EnhancementProvider } from "./enhancementProvider";
+import { ImageStats } from "./imageStats";
+import { geminiProvider } from "./geminiService";
+import { localProvider } from "./localEnhancer";
+import { validateAnalysisResult } from "./analysisValidation";
+
+export const ENHANCEMENT_PROVIDERS: EnhancementProvider[] = [geminiProvider, localProvider];
+
+export const defaultAiPreferences: AiPreferences = { provider: "gemini", model: geminiProvider.models[0].id };
+
+export const getEnhancementProvider = (id: EnhancementProviderId): EnhancementProvider =>
+  ENHANCEMENT_PROVIDERS.find((provider) => provider.id === id) ?? geminiProvider;
+
+// Falls back to the provider's first model when a stored model id no longer exists.
+export const normalizeAiPreferences = (ai: Partial<AiPreferences> | undefined): AiPreferences => {
+  const provider = getEnhancementProvider(ai?.provider ?? defaultAiPreferences.provider);
+  const model = provider.models.some((candidate) => candidate.id === ai?.model) ? ai!.model! : provider.models[0].id;
+  return { provider: provider.id, model };
+};
+
+// The chosen provider, or an "unavailable" error before any work starts.
+const readyProvider = (ai: AiPreferences): EnhancementProvider => {
+  const provider = getEnhancementProvider(ai.provider);
+  const unavailable = provider.unavailableReason();
+  if (unavailable) throw new EnhancementError(`${provider.label} is unavailable. ${unavailable}`, "unavailable");
+  return provider;
+};
+
+export const analyzeImageAndGetSettings = async (
+  imageBase64: string,
+  userPrompt: string,
+  referenceImageBase64: string | undefined,
+  stats: ImageStats | undefined,
+  ai: AiPreferences,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  const provider = readyProvider(ai);
+  const result = await provider.analyze({ imageBase64, prompt: userPrompt, referenceImageBase64, stats, model: ai.model, signal });
+  // Providers may validate already; checking here too means no provider can hand the renderer bad values
+  return validateAnalysisResult(result);
+};
+
+export const suggestLookVariants = async (
+  imageBase64: string,
+  userPrompt: string,
+  referenceImageBase64: string | undefined,
+  stats: ImageStats | undefined,
+  ai: AiPreferences,
+  count: number
+): Promise<AnalysisResult[]> => {
+  const provider = readyProvider(ai);
+  const variants = await provider.suggestVariants({ imageBase64, prompt: userPrompt, referenceImageBase64, stats, model: ai.model }, count);
+  return variants.slice(0, count).map((variant, index) => ({
+    ...validateAnalysisResult(variant),
+    name: variant.name?.trim() || `Look ${index + 1}`
+  }));
+};
+
+// Answers a follow-up relative to `current`, with the earlier turns as context.
+export const refineLook = async (
+  imageBase64: string,
+  userPrompt: string,
+  referenceImageBase64: string | undefined,
+  stats: ImageStats | undefined,
+  ai: AiPreferences,
+  current: SuggestedSettings,
+  conversation: RefinementTurn[]
+): Promise<AnalysisResult> => {
+  const provider = readyProvider(ai);
+  // Normalized copy without the LUT fields, which callers may pass along with the rest of the settings
+  const look = validateAnalysisResult({ suggestedSettings: current }).suggestedSettings;
+  const result = await provider.refine({ imageBase64, prompt: userPrompt, referenceImageBase64, stats, model: ai.model, current: look, conversation });
+  return validateAnalysisResult(result);
+};
+
+// A sentence for the user about why a spell failed, with what they can do about it.
+export const describeEnhancementError = (error: unknown): string => {
+  if (!(error instanceof EnhancementError)) return "Oops! The spell fizzled. Please try again.";
+  switch (error.kind) {
+    case "unavailable":
+      return `${error.message} You can switch to the on-device enhancer in Settings.`;
+    case "quota":
+      return "The AI service's usage limit was reached. Wait a minute and try again, or use the on-device enhancer in Settings.";
+    case "safety":
+      return "The AI declined to analyze this photo because of its safety filters. Try a different prompt or the on-device enhancer.";
+    case "network":
+      return "Couldn't reach the AI service. Check your connection, or use the on-device enhancer to work offline.";
+    case "parse":
+      return "The AI's answer couldn't be understood, even after asking again. Please try again.";
+    default:
+      return `The spell fizzled: ${error.message}`;
+  }
+};
@@ -0,0 +1,409 @@
+import { ExifData } from "../types";
+
+/**
+ * Reading and writing of the EXIF (APP1) block in JPEG files.
+ *
+ * Only the tags BananaLens shows or carries over to exports are handled; everything else in the
+ * source file is ignored. Written blocks always use little-endian TIFF byte order.
+ */
+
+// Only the start of a file is read when looking for EXIF; APP1 is limited to 64 KB and comes first
+const EXIF_SEARCH_BYTES = 256 * 1024;
+
+const TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  software: 0x0131,
+  dateTime: 0x0132,
+  artist: 0x013b,
+  copyright: 0x8298,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  exifVersion: 0x9000,
+  dateTimeOriginal: 0x9003,
+  exposureBias: 0x9204,
+  focalLength: 0x920a,
+  colorSpace: 0xa001,
+  focalLength35mm: 0xa405,
+  lensModel: 0xa434,
+  gpsVersion: 0x0000,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+  gpsAltitudeRef: 0x0005,
+  gpsAltitude: 0x0006
+};
+
+// TIFF field types and their sizes in bytes
+const BYTE = 1;
+const ASCII = 2;
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+const UNDEFINED = 7;
+const SLONG = 9;
+const SRATIONAL = 10;
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+// --- Reading ---
+
+type TagValue = string | number[];
+
+const readIfd = (view: DataView, tiffStart: number, offset: number, little: boolean): Map<number, TagValue> => {
+  const tags = new Map<number, TagValue>();
+  const start = tiffStart + offset;
+  if (start + 2 > view.byteLength) return tags;
+
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const length = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    const dataStart = size * length > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+    if (dataStart + size * length > view.byteLength) continue;
+
+    if (type === ASCII) {
+      let text = "";
+      for (let j = 0; j < length; j++) {
+        const code = view.getUint8(dataStart + j);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      tags.set(tag, text.trim());
+      continue;
+    }
+
+    const values: number[] = [];
+    for (let j = 0; j < length; j++) {
+      const at = dataStart + j * size;
+      if (type === BYTE || type === UNDEFINED) values.push(view.getUint8(at));
+      else if (type === SHORT) values.push(view.getUint16(at, little));
+      else if (type === LONG) values.push(view.getUint32(at, little));
+      else if (type === SLONG) values.push(view.getInt32(at, little));
+      else if (type === RATIONAL) {
+        const den = view.getUint32(at + 4, little);
+        values.push(den ? view.getUint32(at, little) / den : 0);
+      } else if (type === SRATIONAL) {
+        const den = view.getInt32(at + 4, little);
+        values.push(den ? view.getInt32(at, little) / den : 0);
+      }
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+};
+
+const text = (tags: Map<number, TagValue>, tag: number) => {
+  const value = tags.get(tag);
+  return typeof value === "string" && value ? value : undefined;
+};
+
+const number = (tags: Map<number, TagValue>, tag: number) => {
+  const value = tags.get(tag);
+  return Array.isArray(value) && value.length > 0 && Number.isFinite(value[0]) ? value[0] : undefined;
+};
+
+const dmsToDegrees = (value: TagValue | undefined, ref: string | undefined, negativeRef: string) => {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === negativeRef ? -degrees : degrees;
+};
+
+// Returns the offset of the TIFF block inside the APP1 "Exif" segment, if the bytes are a JPEG that has one.
+const findTiffStart = (view: DataView): number | null => {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null; // Start of scan: no more metadata
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+      return offset + 10;
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+export const parseExif = (buffer: ArrayBuffer): ExifData | null => {
+  const view = new DataView(buffer);
+  const tiffStart = findTiffStart(view);
+  if (tiffStart === null || tiffStart + 8 > view.byteLength) return null;
+  const byteOrder = view.getUint16(tiffStart);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null;
+  const little = byteOrder === 0x4949;
+
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+  const exifOffset = number(ifd0, TAGS.exifIfd);
+  const gpsOffset = number(ifd0, TAGS.gpsIfd);
+  const exif = exifOffset ? readIfd(view, tiffStart, exifOffset, little) : new Map<number, TagValue>();
+  const gps = gpsOffset ? readIfd(view, tiffStart, gpsOffset, little) : new Map<number, TagValue>();
+
+  const latitude = dmsToDegrees(gps.get(TAGS.gpsLatitude), text(gps, TAGS.gpsLatitudeRef), "S");
+  const longitude = dmsToDegrees(gps.get(TAGS.gpsLongitude), text(gps, TAGS.gpsLongitudeRef), "W");
+  const altitude = number(gps, TAGS.gpsAltitude);
+
+  const data: ExifData = {
+    make: text(ifd0, TAGS.make),
+    model: text(ifd0, TAGS.model),
+    lensModel: text(exif, TAGS.lensModel),
+    orientation: number(ifd0, TAGS.orientation),
+    dateTaken: text(exif, TAGS.dateTimeOriginal) ?? text(ifd0, TAGS.dateTime),
+    exposureTime: number(exif, TAGS.exposureTime),
+    fNumber: number(exif, TAGS.fNumber),
+    iso: number(exif, TAGS.iso),
+    focalLength: number(exif, TAGS.focalLength),
+    focalLength35mm: number(exif, TAGS.focalLength35mm),
+    exposureBias: number(exif, TAGS.exposureBias),
+    artist: text(ifd0, TAGS.artist),
+    copyright: text(ifd0, TAGS.copyright),
+    software: text(ifd0, TAGS.software),
+    gps: latitude !== undefined && longitude !== undefined
+      ? { latitude, longitude, altitude: altitude !== undefined && number(gps, TAGS.gpsAltitudeRef) === 1 ? -altitude : altitude }
+      : undefined
+  };
+
+  // Drop empty fields so stored records stay small
+  for (const key of Object.keys(data) as (keyof ExifData)[]) {
+    if (data[key] === undefined) delete data[key];
+  }
+  return Object.keys(data).length > 0 ? data : null;
+};
+
+export const readExif = async (blob: Blob): Promise<ExifData | null> =>
+  parseExif(await blob.slice(0, EXIF_SEARCH_BYTES).arrayBuffer());
+
+// Works for data URLs as well as object URLs of stored originals.
+export const readExifFromUrl = async (url: string): Promise<ExifData | null> => {
+  const response = await fetch(url);
+  return readExif(await response.blob());
+};
+
+const TEXT_FIELDS = ["make", "model", "lensModel", "dateTaken", "artist", "copyright", "software"] as const;
+const NUMBER_FIELDS = ["exposureTime", "fNumber", "iso", "focalLength", "focalLength35mm", "exposureBias"] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const finiteNumber = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : undefined);
+
+const inRange = (value: unknown, limit: number) => {
+  const number = finiteNumber(value);
+  return number !== undefined && Math.abs(number) <= limit ? number : undefined;
+};
+
+// Keeps only correctly typed fields of EXIF data from a file, since it is written back into exported JPEGs
+export const normalizeExif = (value: unknown): ExifData | undefined => {
+  if (!isRecord(value)) return undefined;
+  const data: ExifData = {};
+  for (const key of TEXT_FIELDS) {
+    const text = value[key];
+    if (typeof text === "string" && text) data[key] = text;
+  }
+  for (const key of NUMBER_FIELDS) {
+    const number = finiteNumber(value[key]);
+    if (number !== undefined && (key === "exposureBias" || number > 0)) data[key] = number;
+  }
+  const orientation = value.orientation;
+  if (typeof orientation === "number" && Number.isInteger(orientation) && orientation >= 1 && orientation <= 8) data.orientation = orientation;
+  if (isRecord(value.gps)) {
+    const latitude = inRange(value.gps.latitude, 90);
+    const longitude = inRange(value.gps.longitude, 180);
+    if (latitude !== undefined && longitude !== undefined) data.gps = { latitude, longitude, altitude: finiteNumber(value.gps.altitude) };
+  }
+  return Object.keys(data).length > 0 ? data : undefined;
+};
+
+// --- Writing ---
+
+interface Entry {
+  tag: number;
+  type: number;
+  values: number[]; // For RATIONAL/SRATIONAL: numerator, denominator pairs
+}
+
+const gcd = (a: number, b: number): number => (b ? gcd(b, a % b) : a);
+
+const toRational = (value: number): [number, number] => {
+  // Exposure times like 1/250 s are conventionally stored with a numerator of 1
+  if (value > 0 && value < 1 && Math.abs(1 / value - Math.round(1 / value)) < 0.01) return [1, Math.round(1 / value)];
+  const den = 10000;
+  const num = Math.round(value * den);
+  const divisor = gcd(Math.abs(num), den) || 1;
+  return [num / divisor, den / divisor];
+};
+
+const asciiEntry = (tag: number, value: string): Entry => ({
+  tag,
+  type: ASCII,
+  // Non-ASCII characters are not allowed in ASCII fields
+  values: [...Array.from(value, (c) => (c.charCodeAt(0) < 128 ? c.charCodeAt(0) : 63)), 0]
+});
+
+const rationalEntry = (tag: number, values: number[], signed = false): Entry => ({
+  tag,
+  type: signed ? SRATIONAL : RATIONAL,
+  values: values.flatMap(toRational)
+});
+
+const degreesToDms = (degrees: number) => {
+  const abs = Math.abs(degrees);
+  const d = Math.floor(abs);
+  const m = Math.floor((abs - d) * 60);
+  const s = (abs - d - m / 60) * 3600;
+  return [d, m, s];
+};
+
+const entryDataSize = (entry: Entry) => {
+  const count = entry.type === RATIONAL || entry.type === SRATIONAL ? entry.values.length / 2 : entry.values.length;
+  return TYPE_SIZES[entry.type] * count;
+};
+
+const ifdSize = (entries: Entry[]) =>
+  2 + entries.length * 12 + 4 + entries.reduce((sum, entry) => {
+    const size = entryDataSize(entry);
+    return sum + (size > 4 ? size + (size % 2) : 0);
+  }, 0);
+
+const writeIfd = (view: DataView, offset: number, entries: Entry[]) => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+  view.setUint16(offset, sorted.length, true);
+
+  sorted.forEach((entry, i) => {
+    const at = offset + 2 + i * 12;
+    const size = entryDataSize(entry);
+    view.setUint16(at, entry.tag, true);
+    view.setUint16(at + 2, entry.type, true);
+    view.setUint32(at + 4, size / TYPE_SIZES[entry.type], true);
+
+    let target = at + 8;
+    if (size > 4) {
+      view.setUint32(at + 8, dataOffset, true);
+      target = dataOffset;
+      dataOffset += size + (size % 2);
+    }
+
+    const step = entry.type === RATIONAL || entry.type === SRATIONAL ? 4 : TYPE_SIZES[entry.type];
+    entry.values.forEach((value, j) => {
+      const pos = target + j * step;
+      if (step === 1) view.setUint8(pos, value);
+      else if (step === 2) view.setUint16(pos, value, true);
+      else if (entry.type === SRATIONAL || entry.type === SLONG) view.setInt32(pos, value, true);
+      else view.setUint32(pos, value, true);
+    });
+  });
+  view.setUint32(offset + 2 + sorted.length * 12, 0, true); // No next IFD
+};
+
+/**
+ * Builds a complete APP1 segment (marker included) for the given fields.
+ * Fields that are missing from `exif` are left out of the block.
+ */
+export const buildExifSegment = (exif: ExifData) => {
+  const ifd0: Entry[] = [];
+  const exifIfd: Entry[] = [
+    { tag: TAGS.exifVersion, type: UNDEFINED, values: Array.from("0232", (c) => c.charCodeAt(0)) },
+    { tag: TAGS.colorSpace, type: SHORT, values: [1] } // Canvas output is sRGB
+  ];
+  const gpsIfd: Entry[] = [];
+
+  if (exif.make) ifd0.push(asciiEntry(TAGS.make, exif.make));
+  if (exif.model) ifd0.push(asciiEntry(TAGS.model, exif.model));
+  if (exif.orientation) ifd0.push({ tag: TAGS.orientation, type: SHORT, values: [exif.orientation] });
+  if (exif.software) ifd0.push(asciiEntry(TAGS.software, exif.software));
+  if (exif.dateTaken) ifd0.push(asciiEntry(TAGS.dateTime, exif.dateTaken));
+  if (exif.artist) ifd0.push(asciiEntry(TAGS.artist, exif.artist));
+  if (exif.copyright) ifd0.push(asciiEntry(TAGS.copyright, exif.copyright));
+
+  if (exif.exposureTime) exifIfd.push(rationalEntry(TAGS.exposureTime, [exif.exposureTime]));
+  if (exif.fNumber) exifIfd.push(rationalEntry(TAGS.fNumber, [exif.fNumber]));
+  if (exif.iso) exifIfd.push({ tag: TAGS.iso, type: SHORT, values: [Math.min(65535, Math.round(exif.iso))] });
+  if (exif.dateTaken) exifIfd.push(asciiEntry(TAGS.dateTimeOriginal, exif.dateTaken));
+  if (exif.exposureBias !== undefined) exifIfd.push(rationalEntry(TAGS.exposureBias, [exif.exposureBias], true));
+  if (exif.focalLength) exifIfd.push(rationalEntry(TAGS.focalLength, [exif.focalLength]));
+  if (exif.focalLength35mm) exifIfd.push({ tag: TAGS.focalLength35mm, type: SHORT, values: [Math.round(exif.focalLength35mm)] });
+  if (exif.lensModel) exifIfd.push(asciiEntry(TAGS.lensModel, exif.lensModel));
+
+  if (exif.gps) {
+    gpsIfd.push(
+      { tag: TAGS.gpsVersion, type: BYTE, values: [2, 3, 0, 0] },
+      asciiEntry(TAGS.gpsLatitudeRef, exif.gps.latitude < 0 ? "S" : "N"),
+      rationalEntry(TAGS.gpsLatitude, degreesToDms(exif.gps.latitude)),
+      asciiEntry(TAGS.gpsLongitudeRef, exif.gps.longitude < 0 ? "W" : "E"),
+      rationalEntry(TAGS.gpsLongitude, degreesToDms(exif.gps.longitude))
+    );
+    if (exif.gps.altitude !== undefined) {
+      gpsIfd.push(
+        { tag: TAGS.gpsAltitudeRef, type: BYTE, values: [exif.gps.altitude < 0 ? 1 : 0] },
+        rationalEntry(TAGS.gpsAltitude, [Math.abs(exif.gps.altitude)])
+      );
+    }
+  }
+
+  // Pointers are LONGs stored inline, so IFD sizes are known before their values
+  const exifPointer: Entry = { tag: TAGS.exifIfd, type: LONG, values: [0] };
+  const gpsPointer: Entry = { tag: TAGS.gpsIfd, type: LONG, values: [0] };
+  ifd0.push(exifPointer);
+  if (gpsIfd.length > 0) ifd0.push(gpsPointer);
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0);
+  const gpsOffset = exifOffset + ifdSize(exifIfd);
+  const tiffSize = gpsOffset + (gpsIfd.length > 0 ? ifdSize(gpsIfd) : 0);
+  exifPointer.values = [exifOffset];
+  gpsPointer.values = [gpsOffset];
+
+  // APP1 marker, length, "Exif\0\0", then the TIFF block
+  const segment = new Uint8Array(10 + tiffSize);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, 8 + tiffSize);
+  segment.set([0x45, 0x78, 0x69, 0x66, 0, 0], 4);
+
+  const tiff = new DataView(segment.buffer, 10);
+  tiff.setUint16(0, 0x4949);
+  tiff.setUint16(2, 42, true);
+  tiff.setUint32(4, ifd0Offset, true);
+  writeIfd(tiff, ifd0Offset, ifd0);
+  writeIfd(tiff, exifOffset, exifIfd);
+  if (gpsIfd.length > 0) writeIfd(tiff, gpsOffset, gpsIfd);
+  return segment;
+};
+
+/**
+ * Returns a copy of a JPEG with its EXIF block replaced by one built from `exif`.
+ * The new block goes after the JFIF header, where canvas encoders put their only APP segment.
+ */
+export const writeExif = async (jpeg: Blob, exif: ExifData): Promise<Blob> => {
+  const bytes = new Uint8Array(await jpeg.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  if (bytes.length < 4 || view.getUint16(0) !== 0xffd8) throw new Error("Not a JPEG file");
+
+  const kept: (typeof bytes)[] = [];
+  let insertAt = 2;
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+    const end = offset + 2 + view.getUint16(offset + 2);
+    const isExif = marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966;
+    if (marker === 0xffe0 && insertAt === offset) insertAt = end;
+    if (!isExif) kept.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+
+  const header = kept.filter((segment) => segment.byteOffset < insertAt);
+  const rest = kept.filter((segment) => segment.byteOffset >= insertAt);
+  return new Blob([bytes.subarray(0, 2), ...header, buildExifSegment(exif), ...rest, bytes.subarray(offset)], { type: "image/jpeg" });
+};
@@ -0,0 +1,65 @@
+import { ExportFormat, ExportOptions, ExportProfile, MetadataGroup } from "../types";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mimeType: string; extension: string; lossy: boolean }> = {
+  jpeg: { label: "JPEG", mimeType: "image/jpeg", extension: "jpg", lossy: true },
+  webp: { label: "WebP", mimeType: "image/webp", extension: "webp", lossy: true },
+  png: { label: "PNG", mimeType: "image/png", extension: "png", lossy: false }
+};
+
+export const FILENAME_TOKENS = ["{name}", "{date}", "{time}", "{index}", "{width}", "{height}"];
+
+export const METADATA_GROUPS: { key: MetadataGroup; label: string }[] = [
+  { key: "camera", label: "Camera & lens" },
+  { key: "exposure", label: "Exposure" },
+  { key: "date", label: "Date taken" },
+  { key: "author", label: "Artist & copyright" }
+];
+
+// Matches what exports looked like before export options existed
+export const defaultExportOptions: ExportOptions = {
+  format: "png",
+  quality: 90,
+  resizeMode: "original",
+  longEdge: 2048,
+  percent: 50,
+  filenameTemplate: "bananalens-{name}",
+  metadata: METADATA_GROUPS.map((group) => group.key),
+  stripGps: true
+};
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+// Fills in and clamps options from storage, where fields may be missing or out of range.
+export const normalizeExportOptions = (options: Partial<ExportOptions> | undefined): ExportOptions => {
+  const merged = { ...defaultExportOptions, ...options };
+  return {
+    format: merged.format in EXPORT_FORMATS ? merged.format : defaultExportOptions.format,
+    quality: clamp(merged.quality, 1, 100, defaultExportOptions.quality),
+    resizeMode: ["original", "longEdge", "percent"].includes(merged.resizeMode) ? merged.resizeMode : "original",
+    longEdge: clamp(merged.longEdge, 16, 16384, defaultExportOptions.longEdge),
+    percent: clamp(merged.percent, 1, 100, defaultExportOptions.percent),
+    filenameTemplate: typeof merged.filenameTemplate === "string" && merged.filenameTemplate.trim()
+      ? merged.filenameTemplate
+      : defaultExportOptions.filenameTemplate,
+    metadata: Array.isArray(merged.metadata)
+      ? METADATA_GROUPS.map((group) => group.key).filter((key) => merged.metadata.includes(key))
+      : defaultExportOptions.metadata,
+    stripGps: typeof merged.stripGps === "boolean" ? merged.stripGps : defaultExportOptions.stripGps
+  };
+};
+
+export const createExportProfile = (name: string, options: ExportOptions): ExportProfile => ({
+  id: "profile-" + Date.now().toString() + Math.random().toString().slice(2, 8),
+  name: name.trim() || "Untitled Profile",
+  options
+});
+
+// Short summary for buttons, e.g. "JPEG 85% · 2048px"
+export const describeExportOptions = (options: ExportOptions) => {
+  const format = EXPORT_FORMATS[options.format];
+  const quality = format.lossy ? ` ${options.quality}%` : "";
+  const size =
+    options.resizeMode === "longEdge" ? `${options.longEdge}px` : options.resizeMode === "percent" ? `${options.percent}% size` : "Full size";
+  return `${format.label}${quality} · ${size}`;
+};
@@ -0,0 +1,207 @@
+import { ExifData, ExportOptions, PhotoItem } from "../types";
+import { readExifFromUrl, writeExif } from "./exifService";
+import { EXPORT_FORMATS } from "./exportOptions";
+import { croppedSize, defaultGeometry } from "./geometry";
+import { loadImage, renderToCanvas } from "./renderPipeline";
+import { SETTINGS_SCHEMA_VERSION } from "./storageService";
+import { createZipWriter } from "./zipWriter";
+
+/**
+ * Rendering of collection photos to image files, singly or bundled into a ZIP, using the
+ * format, size and filename template from ExportOptions.
+ *
+ * A ZIP export can include `manifest.json`:
+ *
+ *   {
+ *     "format": "bananalens-export",
+ *     "version": 1,
+ *     "settingsVersion": 4,           // FilterSettings schema of the settings below
+ *     "exportedAt": "2025-01-31T12:00:00.000Z",
+ *     "photos": [
+ *       { "file": "bananalens-beach.png", "name": "beach", "settings": { ... }, "geometry": { ... }, "aiReasoning": "..." }
+ *     ]
+ *   }
+ */
+
+export const EXPORT_MANIFEST_FORMAT = "bananalens-export";
+export const EXPORT_MANIFEST_VERSION = 1;
+
+export interface ExportProgress {
+  done: number;
+  total: number;
+}
+
+export interface ZipExportOptions {
+  includeManifest: boolean;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+export interface RenderedExport {
+  blob: Blob;
+  filename: string;
+}
+
+// Position of a photo within an export, for the {index} token
+interface ExportPosition {
+  index: number;
+  total: number;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+// Characters that are invalid in file names on at least one common OS
+export const UNSAFE_FILENAME_CHARS = /[\\/:*?"<>|\u0000-\u001f]/g;
+
+export const formatFilename = (
+  template: string,
+  item: PhotoItem,
+  position: ExportPosition,
+  size: { width: number; height: number }
+) => {
+  const date = new Date(item.timestamp);
+  const tokens: Record<string, string> = {
+    name: item.name,
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+    index: pad(position.index, Math.max(2, String(position.total).length)),
+    width: String(size.width),
+    height: String(size.height)
+  };
+  const name = template
+    .replace(/\{(\w+)\}/g, (match, token: string) => tokens[token.toLowerCase()] ?? match)
+    .replace(UNSAFE_FILENAME_CHARS, "-")
+    .trim();
+  return name || "bananalens-export";
+};
+
+const targetLongEdge = (width: number, height: number, options: ExportOptions) => {
+  if (options.resizeMode === "longEdge") return options.longEdge;
+  if (options.resizeMode === "percent") return Math.max(1, Math.round((Math.max(width, height) * options.percent) / 100));
+  return undefined;
+};
+
+/**
+ * Picks the EXIF fields the export options keep. Pixels are always written upright, so the
+ * orientation is reset; returns null when nothing is left to write.
+ */
+export const exportExif = (exif: ExifData, options: ExportOptions): ExifData | null => {
+  const kept: ExifData = {};
+  const groups = new Set(options.metadata);
+  if (groups.has("camera")) Object.assign(kept, { make: exif.make, model: exif.model, lensModel: exif.lensModel });
+  if (groups.has("exposure")) {
+    Object.assign(kept, {
+      exposureTime: exif.exposureTime,
+      fNumber: exif.fNumber,
+      iso: exif.iso,
+      focalLength: exif.focalLength,
+      focalLength35mm: exif.focalLength35mm,
+      exposureBias: exif.exposureBias
+    });
+  }
+  if (groups.has("date")) kept.dateTaken = exif.dateTaken;
+  if (groups.has("author")) Object.assign(kept, { artist: exif.artist, copyright: exif.copyright });
+  if (!options.stripGps) kept.gps = exif.gps;
+
+  if (!Object.values(kept).some((value) => value !== undefined)) return null;
+  return { ...kept, orientation: 1, software: "BananaLens" };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the image"))), type, quality);
+  });
+
+export const renderItemToBlob = async (
+  item: PhotoItem,
+  options: ExportOptions,
+  position: ExportPosition = { index: 1, total: 1 }
+): Promise<RenderedExport> => {
+  const img = await loadImage(item.originalUrl);
+  const geometry = item.geometry ?? defaultGeometry;
+  const cropped = croppedSize(img.naturalWidth, img.naturalHeight, geometry);
+  const canvas = renderToCanvas(img, item.settings, { geometry, maxSize: targetLongEdge(cropped.width, cropped.height, options) });
+  try {
+    const format = EXPORT_FORMATS[options.format];
+    if (options.format === "jpeg") {
+      // JPEG has no alpha, and transparent pixels would otherwise turn black
+      const ctx = canvas.getContext("2d");
+      if (ctx) {
+        ctx.globalCompositeOperation = "destination-over";
+        ctx.fillStyle = "#ffffff";
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+    }
+    let blob = await canvasToBlob(canvas, format.mimeType, format.lossy ? options.quality / 100 : undefined);
+    if (blob.type === "image/jpeg") {
+      // Photos imported before metadata was kept are read from their original file
+      const exif = item.exif ?? (await readExifFromUrl(item.originalUrl).catch(() => null));
+      const kept = exif && exportExif(exif, options);
+      if (kept) blob = await writeExif(blob, kept);
+    }
+    // Browsers without a WebP encoder silently fall back to PNG; name the file after what we got
+    const extension = Object.values(EXPORT_FORMATS).find((f) => f.mimeType === blob.type)?.extension ?? format.extension;
+    return { blob, filename: `${formatFilename(options.filenameTemplate, item, position, canvas)}.${extension}` };
+  } finally {
+    // Full-size canvases hold a lot of memory; release this one before the next photo renders
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+};
+
+// Photos can share a name, so later ones get a numeric suffix inside the archive.
+export const uniqueName = (name: string, used: Set<string>) => {
+  let candidate = name;
+  const dot = name.lastIndexOf(".");
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = dot > 0 ? `${name.slice(0, dot)}-${n}${name.slice(dot)}` : `${name}-${n}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * Renders each photo in turn and adds it to one ZIP archive.
+ * Photos that fail to render are skipped and reported in `failed`.
+ */
+export const exportItemsAsZip = async (
+  items: PhotoItem[],
+  exportOptions: ExportOptions,
+  options: ZipExportOptions
+): Promise<{ zip: Blob; failed: PhotoItem[] }> => {
+  const zip = createZipWriter();
+  const usedNames = new Set<string>();
+  const photos: ({ file: string } & Pick<PhotoItem, "name" | "settings" | "geometry" | "aiReasoning">)[] = [];
+  const failed: PhotoItem[] = [];
+
+  options.onProgress?.({ done: 0, total: items.length });
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    let rendered: RenderedExport;
+    try {
+      rendered = await renderItemToBlob(item, exportOptions, { index: i + 1, total: items.length });
+    } catch (error) {
+      console.error("Export failed", item.name, error);
+      failed.push(item);
+      options.onProgress?.({ done: i + 1, total: items.length });
+      continue;
+    }
+    // Archive errors (e.g. the size limit) abort the whole export
+    const file = uniqueName(rendered.filename, usedNames);
+    await zip.add(file, rendered.blob);
+    photos.push({ file, name: item.name, settings: item.settings, geometry: item.geometry, aiReasoning: item.aiReasoning });
+    options.onProgress?.({ done: i + 1, total: items.length });
+  }
+
+  if (options.includeManifest) {
+    const manifest = {
+      format: EXPORT_MANIFEST_FORMAT,
+      version: EXPORT_MANIFEST_VERSION,
+      settingsVersion: SETTINGS_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      photos
+    };
+    await zip.add("manifest.json", JSON.stringify(manifest, null, 2));
+  }
+
+  return { zip: zip.finish(), failed };
+};
@@ -0,0 +1,112 @@
+import { FilterSettings } from "../types";
+import { identityCurves } from "./toneCurve";
+import { normalizeLocalAdjustments } from "./localAdjustments";
+
+export const defaultSettings: FilterSettings = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  sepia: 0,
+  grayscale: 0,
+  hueRotate: 0,
+  blur: 0,
+  clarity: 0,
+  sharpen: 0,
+  vignette: 0,
+  vignetteMidpoint: 50,
+  vignetteRoundness: 0,
+  grain: 0,
+  grainSize: 25,
+  warmth: 0,
+  tint: 0,
+  highlights: 0,
+  shadows: 0,
+  blackPoint: 0,
+  whitePoint: 255,
+  curves: identityCurves(),
+  lutId: null,
+  lutIntensity: 100,
+  localAdjustments: []
+};
+
+export type SettingKey = keyof FilterSettings;
+
+// Settings controlled by a single slider; curves, the LUT and local adjustments have their own panels.
+export type NumericSettingKey = {
+  [K in SettingKey]: FilterSettings[K] extends number ? K : never
+}[SettingKey];
+
+export interface SettingField {
+  key: NumericSettingKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+}
+
+// Ranges shown in the adjustment panel; these match the documented ranges in types.ts.
+export const SETTING_FIELDS: SettingField[] = [
+  { key: "brightness", label: "Brightness", min: 0, max: 200, step: 1, unit: "%" },
+  { key: "contrast", label: "Contrast", min: 0, max: 200, step: 1, unit: "%" },
+  { key: "saturation", label: "Saturation", min: 0, max: 200, step: 1, unit: "%" },
+  { key: "highlights", label: "Highlights", min: -100, max: 100, step: 1 },
+  { key: "shadows", label: "Shadows", min: -100, max: 100, step: 1 },
+  { key: "blackPoint", label: "Black Point", min: 0, max: 254, step: 1 },
+  { key: "whitePoint", label: "White Point", min: 1, max: 255, step: 1 },
+  { key: "warmth", label: "Temperature", min: -100, max: 100, step: 1 },
+  { key: "tint", label: "Tint", min: -100, max: 100, step: 1 },
+  { key: "hueRotate", label: "Hue", min: 0, max: 360, step: 1, unit: "°" },
+  { key: "sepia", label: "Sepia", min: 0, max: 100, step: 1, unit: "%" },
+  { key: "grayscale", label: "Grayscale", min: 0, max: 100, step: 1, unit: "%" },
+  { key: "clarity", label: "Clarity", min: -100, max: 100, step: 1 },
+  { key: "sharpen", label: "Sharpening", min: 0, max: 100, step: 1 },
+  { key: "blur", label: "Blur", min: 0, max: 20, step: 0.5, unit: "px" },
+  { key: "vignette", label: "Vignette", min: -100, max: 100, step: 1 },
+  { key: "vignetteMidpoint", label: "Vignette Midpoint", min: 0, max: 100, step: 1 },
+  { key: "vignetteRoundness", label: "Vignette Roundness", min: -100, max: 100, step: 1 },
+  { key: "grain", label: "Grain", min: 0, max: 100, step: 1 },
+  { key: "grainSize", label: "Grain Size", min: 0, max: 100, step: 1 }
+];
+
+export const LUT_INTENSITY_FIELD: SettingField = { key: "lutIntensity", label: "LUT Intensity", min: 0, max: 100, step: 1, unit: "%" };
+
+export const clampSetting = (field: SettingField, value: number): number =>
+  Math.min(field.max, Math.max(field.min, value));
+
+// Fills in any field missing from a partial or older settings object with its default.
+export const normalizeSettings = (partial?: Partial<FilterSettings>): FilterSettings => ({
+  ...defaultSettings,
+  ...partial,
+  curves: { ...defaultSettings.curves, ...partial?.curves },
+  localAdjustments: normalizeLocalAdjustments(partial?.localAdjustments)
+});
+
+export interface SettingGroup {
+  label: string;
+  keys: SettingKey[];
+  optIn?: boolean; // Left unchecked until chosen, for settings that rarely suit another photo
+}
+
+// Every setting, grouped for choosing which ones to paste or sync between photos.
+export const SETTING_GROUPS: SettingGroup[] = [
+  { label: "Light", keys: ["brightness", "contrast", "highlights", "shadows", "blackPoint", "whitePoint"] },
+  { label: "Color", keys: ["saturation", "warmth", "tint", "hueRotate"] },
+  { label: "Detail", keys: ["clarity", "sharpen"] },
+  { label: "Effects", keys: ["sepia", "grayscale", "blur", "vignette", "vignetteMidpoint", "vignetteRoundness", "grain", "grainSize"] },
+  { label: "Tone Curves", keys: ["curves"] },
+  { label: "LUT", keys: ["lutId", "lutIntensity"] },
+  { label: "Local Adjustments", keys: ["localAdjustments"], optIn: true }
+];
+
+// What a paste or sync copies until the user picks otherwise
+export const DEFAULT_TRANSFER_KEYS: SettingKey[] = SETTING_GROUPS.filter((group) => !group.optIn).flatMap((group) => group.keys);
+
+const SPECIAL_LABELS: Partial<Record<SettingKey, string>> = { curves: "Curves", lutId: "LUT", localAdjustments: "Masks" };
+
+export const settingLabel = (key: SettingKey): string =>
+  SPECIAL_LABELS[key] ?? [...SETTING_FIELDS, LUT_INTENSITY_FIELD].find((field) => field.key === key)?.label ?? key;
+
+// `target` with the chosen settings taken from `source`.
+export const copySettingKeys = (target: FilterSettings, source: FilterSettings, keys: SettingKey[]): FilterSettings =>
+  keys.reduce<FilterSettings>((result, key) => ({ ...result, [key]: source[key] }), { ...target });
@@ -1,8 +1,12 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { FilterSettings, AnalysisResult } from "../types";
+import { ApiError, Content, FinishReason, GenerateContentResponse, GoogleGenAI, Part, Schema, Type } from "@google/genai";
+import { AnalysisResult } from "../types";
+import { NumericSettingKey, SETTING_FIELDS, defaultSettings } from "./filterSettings";
+import { formatStatsForPrompt } from "./imageStats";
+import { EnhancementError, EnhancementProvider, EnhancementRequest, RefinementRequest } from "./enhancementProvider";
+import { parseAnalysisResponse, parseRefinementResponse, parseVariantsResponse } from "./analysisValidation";
 
 // Helper to convert Blob/File to Base64
-export const fileToGenerativePart = async (file: File): Promise<string> => {
+export const fileToGenerativePart = async (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onloadend = () => {
@@ -31,16 +35,175 @@ export const urlToBase64 = async (url: string): Promise<string> => {
   });
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use so the app loads, and other providers work, without an API key
+let client: GoogleGenAI | null = null;
 
-export const analyzeImageAndGetSettings = async (
-  imageBase64: string,
-  userPrompt: string = "",
-  referenceImageBase64?: string
-): Promise<AnalysisResult> => {
+const getClient = () => {
+  if (!process.env.API_KEY) throw new EnhancementError("No Gemini API key is configured.", "unavailable");
+  client ??= new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+const curveSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      x: { type: Type.NUMBER },
+      y: { type: Type.NUMBER },
+    },
+    required: ["x", "y"],
+  },
+};
+
+// Corrective follow-ups sent when a reply isn't usable JSON
+const REPAIR_ATTEMPTS = 2;
+
+const settingsSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    brightness: { type: Type.NUMBER },
+    contrast: { type: Type.NUMBER },
+    saturation: { type: Type.NUMBER },
+    sepia: { type: Type.NUMBER },
+    grayscale: { type: Type.NUMBER },
+    hueRotate: { type: Type.NUMBER },
+    warmth: { type: Type.NUMBER },
+    tint: { type: Type.NUMBER },
+    highlights: { type: Type.NUMBER },
+    shadows: { type: Type.NUMBER },
+    blackPoint: { type: Type.NUMBER },
+    whitePoint: { type: Type.NUMBER },
+    curves: {
+      type: Type.OBJECT,
+      properties: {
+        rgb: curveSchema,
+        red: curveSchema,
+        green: curveSchema,
+        blue: curveSchema,
+      },
+    },
+    blur: { type: Type.NUMBER },
+    clarity: { type: Type.NUMBER },
+    sharpen: { type: Type.NUMBER },
+    vignette: { type: Type.NUMBER },
+    vignetteMidpoint: { type: Type.NUMBER },
+    vignetteRoundness: { type: Type.NUMBER },
+    grain: { type: Type.NUMBER },
+    grainSize: { type: Type.NUMBER },
+  },
+  required: ["brightness", "contrast", "saturation"],
+};
+
+const analysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    reasoning: { type: Type.STRING },
+    suggestedSettings: settingsSchema
+  }
+};
+
+const refinementSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    reasoning: { type: Type.STRING },
+    adjustments: { ...settingsSchema, required: [] }
+  },
+  required: ["reasoning", "adjustments"]
+};
+
+const variantsSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    variants: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          reasoning: { type: Type.STRING },
+          suggestedSettings: settingsSchema
+        },
+        required: ["name", "reasoning", "suggestedSettings"]
+      }
+    }
+  },
+  required: ["variants"]
+};
+
+// Maps SDK and fetch failures onto the kinds the UI knows how to explain.
+const toEnhancementError = (error: unknown): EnhancementError => {
+  if (error instanceof EnhancementError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (typeof navigator !== "undefined" && !navigator.onLine) return new EnhancementError(message, "network");
+  if (error instanceof ApiError) {
+    if (error.status === 429) return new EnhancementError(message, "quota");
+    if (error.status === 401 || error.status === 403) return new EnhancementError("The Gemini API key was rejected.", "unavailable");
+  }
+  if (/RESOURCE_EXHAUSTED|quota/i.test(message)) return new EnhancementError(message, "quota");
+  // fetch() rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError) return new EnhancementError(message, "network");
+  return new EnhancementError(message, "unknown");
+};
+
+// Sends one request and returns the reply text, or throws a typed error.
+// A cancelled request rethrows the signal's AbortError so callers can tell it from a failure.
+const generate = async ({ model, signal }: EnhancementRequest, contents: Content[], schema: Schema): Promise<string | undefined> => {
+  let response: GenerateContentResponse;
+  try {
+    response = await getClient().models.generateContent({
+      model,
+      contents,
+      config: { responseMimeType: "application/json", responseSchema: schema, abortSignal: signal }
+    });
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.error("Gemini Analysis Error:", error);
+    throw toEnhancementError(error);
+  }
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || finishReason === FinishReason.SAFETY || finishReason === FinishReason.PROHIBITED_CONTENT) {
+    throw new EnhancementError(`Blocked by Gemini's safety filters (${blockReason ?? finishReason}).`, "safety");
+  }
+  return response.text;
+};
+
+// What each slider means to the model. Ranges and defaults are filled in from SETTING_FIELDS, so the
+// prompt always asks for what the app will keep rather than what gets clamped away.
+const SETTING_ADVICE: Partial<Record<NumericSettingKey, string>> = {
+  brightness: "<100 darkens, >100 brightens",
+  warmth: "<0 cools toward blue, >0 warms toward amber",
+  tint: "<0 shifts green, >0 shifts magenta",
+  highlights: "<0 recovers blown highlights",
+  shadows: ">0 lifts blocked shadows",
+  blackPoint: "Input level mapped to pure black",
+  whitePoint: "Input level mapped to pure white",
+  blur: "Only use if requested for artistic effect",
+  clarity: "Midtone local contrast; >0 adds texture and punch, <0 softens skin or haze",
+  sharpen: "Edge sharpening; keep under 40 unless the photo is soft",
+  vignette: "<0 darkens the edges to draw the eye in, >0 lightens them",
+  vignetteMidpoint: "Lower values start the vignette closer to the center",
+  vignetteRoundness: "100 is a circle, <0 follows the frame's corners",
+  grain: "Film grain; 10 to 30 suits film and vintage looks",
+  grainSize: "Larger values give coarser, faster-film grain"
+};
 
-  const model = "gemini-2.5-flash"; // Using flash for fast analysis and JSON output
+const CURVES_GUIDE = `
+       - curves (optional): tone curves with keys 'rgb', 'red', 'green', 'blue'. Each is a list of
+         control points {x, y} on a 0-255 scale, sorted by x, including the endpoints.
+         [{x:0,y:0},{x:255,y:255}] is neutral. Use a gentle S-curve for contrast, lift the first point for faded blacks,
+         or bend single channels for split toning. Omit channels you don't change.`;
 
+const SETTINGS_GUIDE =
+  SETTING_FIELDS.map(({ key, min, max }) => {
+    const advice = SETTING_ADVICE[key];
+    return `
+       - ${key} (${min} to ${max}, default ${defaultSettings[key]}${advice ? `. ${advice}` : ""})`;
+  }).join("") + CURVES_GUIDE;
+
+// The photo, optional reference and instructions; `output` says what JSON to return.
+const buildParts = ({ imageBase64, prompt: userPrompt, referenceImageBase64, stats }: EnhancementRequest, output: string): Part[] => {
   let promptText = `
     You are an expert professional photo editor (Nano Banana). 
     Analyze the technical aspects of this image (exposure, contrast, highlights, shadows, color balance, histogram distribution).
@@ -48,24 +211,22 @@ export const analyzeImageAndGetSettings = async (
     Your goal is to suggest CSS Filter values to improve this specific photo aesthetics.
     
     If the photo is Nature: Enhance saturation slightly, balance exposure for dynamic range.
-    If the photo is City/Urban: Enhance contrast, clarity (via contrast), maybe cool tones or gritty look.
+    If the photo is City/Urban: Enhance contrast and clarity, maybe cool tones or a gritty look with grain.
     If the photo is Portrait: Focus on skin tones (warmth), soft contrast.
     
     USER INSTRUCTION: ${userPrompt ? userPrompt : "Auto-enhance this image based on its content (Cast a spell)."}
-    
-    Return a JSON object with:
-    1. 'reasoning': A short sentence explaining what you detected and why you chose these settings.
-    2. 'suggestedSettings': An object containing numeric values for:
-       - brightness (0 to 200, default 100. <100 darkens, >100 brightens)
-       - contrast (0 to 200, default 100)
-       - saturation (0 to 200, default 100)
-       - sepia (0 to 100, default 0)
-       - grayscale (0 to 100, default 0)
-       - hueRotate (0 to 360, default 0)
-       - blur (0 to 10, default 0. Only use if requested for artistic effect)
+    ${output}
   `;
 
-  const parts: any[] = [
+  if (stats) {
+    promptText += `
+    MEASURED IMAGE STATISTICS (computed from the original pixels, 0-255 scale):
+${formatStatsForPrompt(stats)}
+    Treat these numbers as ground truth for exposure, clipping and color balance, and use the image itself for content and mood.
+  `;
+  }
+
+  const parts: Part[] = [
     { inlineData: { mimeType: "image/jpeg", data: imageBase64 } },
     { text: promptText }
   ];
@@ -76,42 +237,99 @@ export const analyzeImageAndGetSettings = async (
     });
     parts[2].text += " \n\nAlso, use the second image provided as a style reference/mood board.";
   }
+  return parts;
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: { parts: parts },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            reasoning: { type: Type.STRING },
-            suggestedSettings: {
-              type: Type.OBJECT,
-              properties: {
-                brightness: { type: Type.NUMBER },
-                contrast: { type: Type.NUMBER },
-                saturation: { type: Type.NUMBER },
-                sepia: { type: Type.NUMBER },
-                grayscale: { type: Type.NUMBER },
-                hueRotate: { type: Type.NUMBER },
-                blur: { type: Type.NUMBER },
-              },
-              required: ["brightness", "contrast", "saturation"],
-            }
-          }
+// Asks until `parse` accepts the reply, showing the model its own reply and what was wrong with it.
+const askForJson = async <T,>(request: EnhancementRequest, parts: Part[], schema: Schema, shape: string, parse: (text: string | undefined) => T): Promise<T> => {
+  const contents: Content[] = [{ role: "user", parts }];
+  for (let attempt = 0; ; attempt++) {
+    const text = await generate(request, contents, schema);
+    try {
+      return parse(text);
+    } catch (error) {
+      if (!(error instanceof EnhancementError) || attempt >= REPAIR_ATTEMPTS) throw error;
+      console.warn("Asking Gemini to repair its reply:", error.message);
+      contents.push(
+        { role: "model", parts: [{ text: text ?? "" }] },
+        {
+          role: "user",
+          parts: [{ text: `That reply could not be used: ${error.message} Answer again with only a JSON object of the form ${shape}, using the ranges given above.` }]
         }
-      }
-    });
-
-    if (response.text) {
-      return JSON.parse(response.text) as AnalysisResult;
+      );
     }
-    throw new Error("No response text");
-
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    throw error;
   }
-};
\ No newline at end of file
+};
+
+const analyzeWithGemini = (request: EnhancementRequest): Promise<AnalysisResult> => {
+  const output = `
+    Return a JSON object with:
+    1. 'reasoning': A short sentence explaining what you detected and why you chose these settings.
+    2. 'suggestedSettings': An object containing numeric values for:${SETTINGS_GUIDE}`;
+  return askForJson(
+    request,
+    buildParts(request, output),
+    analysisSchema,
+    `{"reasoning": string, "suggestedSettings": {...}}`,
+    parseAnalysisResponse
+  );
+};
+
+const suggestVariantsWithGemini = (request: EnhancementRequest, count: number): Promise<AnalysisResult[]> => {
+  const output = `
+    Suggest ${count} clearly different looks for this photo, for example a natural correction, a moody take and a vibrant one.
+    Return a JSON object with 'variants': a list of ${count} objects, each with:
+    1. 'name': A short style name of one to three words, like "Natural" or "Moody Film".
+    2. 'reasoning': A short sentence explaining the look.
+    3. 'suggestedSettings': An object containing numeric values for:${SETTINGS_GUIDE}`;
+  return askForJson(
+    request,
+    buildParts(request, output),
+    variantsSchema,
+    `{"variants": [{"name": string, "reasoning": string, "suggestedSettings": {...}}]}`,
+    parseVariantsResponse
+  );
+};
+
+const refineWithGemini = (request: RefinementRequest): Promise<AnalysisResult> => {
+  const transcript = request.conversation
+    .map((turn) => `    User: ${turn.prompt}\n    You: ${turn.reasoning}`)
+    .join("\n");
+  const output = `
+    This is a follow-up in an editing conversation. Change the look only as much as the instruction asks.
+${transcript ? `    CONVERSATION SO FAR:\n${transcript}\n` : ""}
+    CURRENT SETTINGS (already applied to the photo):
+    ${JSON.stringify(request.current)}
+
+    Return a JSON object with:
+    1. 'reasoning': A short sentence describing what you changed and why.
+    2. 'adjustments': Only the settings you change. Numbers are amounts to ADD to the current value
+       (e.g. warmth: 10 makes it 10 warmer, contrast: -15 lowers contrast), using these ranges:${SETTINGS_GUIDE}
+       Curves are the exception: a channel you include replaces the current curve for that channel.`;
+  return askForJson(
+    request,
+    buildParts(request, output),
+    refinementSchema,
+    `{"reasoning": string, "adjustments": {...}}`,
+    (text) => parseRefinementResponse(text, request.current)
+  );
+};
+
+export const geminiProvider: EnhancementProvider = {
+  id: "gemini",
+  label: "Gemini",
+  description: "Google's multimodal models look at the photo itself, follow your prompt and can match a style reference.",
+  models: [
+    { id: "gemini-2.5-flash", label: "Gemini 2.5 Flash", description: "Fast and good at JSON; the default." },
+    { id: "gemini-2.5-flash-lite", label: "Gemini 2.5 Flash-Lite", description: "Quickest and cheapest, for large batches." },
+    { id: "gemini-2.5-pro", label: "Gemini 2.5 Pro", description: "Slower, with more careful reasoning about the scene." }
+  ],
+  unavailableReason: () => {
+    if (!process.env.API_KEY) return "No API key is configured in .env.local.";
+    if (typeof navigator !== "undefined" && !navigator.onLine) return "You're offline.";
+    return undefined;
+  },
+  analyze: analyzeWithGemini,
+  suggestVariants: suggestVariantsWithGemini,
+  refine: refineWithGemini
+};
@@ -0,0 +1,220 @@
+import { AspectPreset, CropRect, Geometry, QuarterTurns } from "../types";
+
+/**
+ * Non-destructive crop, rotation, straightening and flips.
+ *
+ * Geometry is applied before any color processing, in this order: 90° rotation, flips (relative to
+ * the rotated image, so "horizontal" always means left-right on screen), straightening, crop.
+ * Straightening zooms in to the largest rectangle of the same shape that has no empty corners;
+ * the crop rectangle is stored as fractions of that rectangle, so it stays valid as the angle changes.
+ */
+
+export const MAX_STRAIGHTEN = 45;
+
+export const ASPECT_PRESETS: { key: AspectPreset; label: string; ratio?: number }[] = [
+  { key: "free", label: "Free" },
+  { key: "original", label: "Original" },
+  { key: "1:1", label: "1:1", ratio: 1 },
+  { key: "4:5", label: "4:5", ratio: 4 / 5 },
+  { key: "16:9", label: "16:9", ratio: 16 / 9 }
+];
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const defaultGeometry: Geometry = {
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  straighten: 0,
+  crop: FULL_CROP,
+  aspect: "free"
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const MIN_CROP = 0.02;
+
+export const normalizeCrop = (crop: Partial<CropRect> | undefined): CropRect => {
+  const width = clamp(Number(crop?.width) || 1, MIN_CROP, 1);
+  const height = clamp(Number(crop?.height) || 1, MIN_CROP, 1);
+  return {
+    x: clamp(Number(crop?.x) || 0, 0, 1 - width),
+    y: clamp(Number(crop?.y) || 0, 0, 1 - height),
+    width,
+    height
+  };
+};
+
+// Fills in and clamps geometry from storage or older records without any.
+export const normalizeGeometry = (geometry: Partial<Geometry> | undefined): Geometry => {
+  const rotation = Number(geometry?.rotation);
+  return {
+    rotation: ([0, 90, 180, 270] as number[]).includes(rotation) ? (rotation as QuarterTurns) : 0,
+    flipH: !!geometry?.flipH,
+    flipV: !!geometry?.flipV,
+    straighten: clamp(Number(geometry?.straighten) || 0, -MAX_STRAIGHTEN, MAX_STRAIGHTEN),
+    crop: normalizeCrop(geometry?.crop),
+    aspect: ASPECT_PRESETS.some((preset) => preset.key === geometry?.aspect) ? geometry!.aspect! : "free"
+  };
+};
+
+export const isIdentityGeometry = (geometry: Geometry | undefined) =>
+  !geometry ||
+  (geometry.rotation === 0 &&
+    !geometry.flipH &&
+    !geometry.flipV &&
+    geometry.straighten === 0 &&
+    geometry.crop.x === 0 &&
+    geometry.crop.y === 0 &&
+    geometry.crop.width === 1 &&
+    geometry.crop.height === 1);
+
+// Size after the 90° rotation.
+export const orientedSize = (width: number, height: number, geometry: Geometry) =>
+  geometry.rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+/**
+ * Scale of the largest same-shaped rectangle that fits inside a w×h image rotated by `degrees`.
+ */
+export const straightenScale = (width: number, height: number, degrees: number) => {
+  const angle = (Math.abs(degrees) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return Math.min(width / (width * cos + height * sin), height / (width * sin + height * cos));
+};
+
+// Size in source pixels of the straightened frame the crop is relative to.
+export const frameSize = (width: number, height: number, geometry: Geometry) => {
+  const oriented = orientedSize(width, height, geometry);
+  const scale = straightenScale(oriented.width, oriented.height, geometry.straighten);
+  return { width: oriented.width * scale, height: oriented.height * scale };
+};
+
+// Size in source pixels of the final cropped image.
+export const croppedSize = (width: number, height: number, geometry: Geometry) => {
+  const frame = frameSize(width, height, geometry);
+  return {
+    width: Math.max(1, Math.round(frame.width * geometry.crop.width)),
+    height: Math.max(1, Math.round(frame.height * geometry.crop.height))
+  };
+};
+
+/**
+ * Sets up `ctx` so that drawing the source at (-width/2, -height/2) lands it rotated, flipped,
+ * straightened and cropped on a canvas `scale` times the cropped size.
+ */
+export const applyGeometryTransform = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  geometry: Geometry,
+  scale: number
+) => {
+  const frame = frameSize(width, height, geometry);
+  ctx.scale(scale, scale);
+  ctx.translate(-geometry.crop.x * frame.width, -geometry.crop.y * frame.height);
+  ctx.translate(frame.width / 2, frame.height / 2);
+  ctx.rotate((geometry.straighten * Math.PI) / 180);
+  ctx.scale(geometry.flipH ? -1 : 1, geometry.flipV ? -1 : 1);
+  ctx.rotate((geometry.rotation * Math.PI) / 180);
+};
+
+/**
+ * A 2D affine map, x' = a·x + c·y + e and y' = b·x + d·y + f, laid out like a canvas transform.
+ */
+export interface Affine {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+export const IDENTITY_AFFINE: Affine = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+// The map that applies `second` after `first`
+export const composeAffine = (second: Affine, first: Affine): Affine => ({
+  a: second.a * first.a + second.c * first.b,
+  b: second.b * first.a + second.d * first.b,
+  c: second.a * first.c + second.c * first.d,
+  d: second.b * first.c + second.d * first.d,
+  e: second.a * first.e + second.c * first.f + second.e,
+  f: second.b * first.e + second.d * first.f + second.f
+});
+
+export const invertAffine = (m: Affine): Affine => {
+  const det = m.a * m.d - m.b * m.c;
+  return {
+    a: m.d / det,
+    b: -m.b / det,
+    c: -m.c / det,
+    d: m.a / det,
+    e: (m.c * m.f - m.d * m.e) / det,
+    f: (m.b * m.e - m.a * m.f) / det
+  };
+};
+
+export const applyAffine = (m: Affine, point: { x: number; y: number }) => ({
+  x: m.a * point.x + m.c * point.y + m.e,
+  y: m.b * point.x + m.d * point.y + m.f
+});
+
+const scaling = (x: number, y: number): Affine => ({ a: x, b: 0, c: 0, d: y, e: 0, f: 0 });
+const translation = (x: number, y: number): Affine => ({ a: 1, b: 0, c: 0, d: 1, e: x, f: y });
+const rotation = (degrees: number): Affine => {
+  const angle = (degrees * Math.PI) / 180;
+  return { a: Math.cos(angle), b: Math.sin(angle), c: -Math.sin(angle), d: Math.cos(angle), e: 0, f: 0 };
+};
+
+/**
+ * Maps a point in source pixels to where `applyGeometryTransform` draws it on the output canvas.
+ */
+export const geometryTransform = (width: number, height: number, geometry: Geometry, scale: number): Affine => {
+  const frame = frameSize(width, height, geometry);
+  return [
+    scaling(scale, scale),
+    translation(-geometry.crop.x * frame.width, -geometry.crop.y * frame.height),
+    translation(frame.width / 2, frame.height / 2),
+    rotation(geometry.straighten),
+    scaling(geometry.flipH ? -1 : 1, geometry.flipV ? -1 : 1),
+    rotation(geometry.rotation),
+    translation(-width / 2, -height / 2)
+  ].reduce(composeAffine);
+};
+
+export const aspectRatioFor = (aspect: AspectPreset, originalWidth: number, originalHeight: number) =>
+  aspect === "original" ? originalWidth / originalHeight : ASPECT_PRESETS.find((preset) => preset.key === aspect)?.ratio;
+
+/**
+ * Largest crop of the given pixel aspect ratio centered on the current crop, inside the frame.
+ */
+export const fitCropToAspect = (crop: CropRect, ratio: number, frameWidth: number, frameHeight: number): CropRect => {
+  // In fractions of the frame, width / height must equal ratio * frameHeight / frameWidth
+  const fractionRatio = (ratio * frameHeight) / frameWidth;
+  let width = crop.width;
+  let height = width / fractionRatio;
+  if (height > crop.height) {
+    height = crop.height;
+    width = height * fractionRatio;
+  }
+  // Grow back to the full frame size where possible, so switching presets doesn't keep shrinking
+  const growth = Math.min(1 / width, 1 / height);
+  width *= growth;
+  height *= growth;
+  const centerX = crop.x + crop.width / 2;
+  const centerY = crop.y + crop.height / 2;
+  return normalizeCrop({
+    x: clamp(centerX - width / 2, 0, 1 - width),
+    y: clamp(centerY - height / 2, 0, 1 - height),
+    width,
+    height
+  });
+};
+
+export const rotateQuarter = (geometry: Geometry, direction: 1 | -1): Geometry => ({
+  ...geometry,
+  rotation: (((geometry.rotation + direction * 90) % 360) + 360) % 360 as QuarterTurns,
+  // The frame changes shape, so an old crop would no longer line up with anything
+  crop: FULL_CROP
+});
@@ -0,0 +1,139 @@
+import { fitWithin, loadImage } from "./renderPipeline";
+
+// Long edge used when measuring an original; statistics don't need full resolution.
+const STATS_SIZE = 512;
+
+// Channel values at or beyond these count as clipped.
+const SHADOW_CLIP_LEVEL = 2;
+const HIGHLIGHT_CLIP_LEVEL = 253;
+
+// Channel mean difference (0-255 scale) above which a color cast is reported.
+const CAST_THRESHOLD = 6;
+
+export interface Histogram {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  luma: Uint32Array;
+  total: number;
+  shadowClipped: number;    // Pixels with every channel at or below the shadow clip level
+  highlightClipped: number; // Pixels with any channel at or above the highlight clip level
+}
+
+export interface ImageStats {
+  meanLuminance: number;        // 0-255
+  medianLuminance: number;      // 0-255
+  luminanceStdDev: number;      // Rough measure of global contrast
+  blackLevel: number;           // Luminance of the darkest 0.5% of pixels, 0-255
+  whiteLevel: number;           // Luminance of the brightest 0.5% of pixels, 0-255
+  shadowClipPercent: number;    // 0-100
+  highlightClipPercent: number; // 0-100
+  channelMeans: { red: number; green: number; blue: number };
+  colorCast: string;            // e.g. "neutral", "warm (red/yellow)"
+}
+
+export const computeHistogram = (imageData: ImageData): Histogram => {
+  const red = new Uint32Array(256);
+  const green = new Uint32Array(256);
+  const blue = new Uint32Array(256);
+  const luma = new Uint32Array(256);
+  let shadowClipped = 0;
+  let highlightClipped = 0;
+  let total = 0;
+
+  const data = imageData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    red[r]++;
+    green[g]++;
+    blue[b]++;
+    luma[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++;
+    if (r <= SHADOW_CLIP_LEVEL && g <= SHADOW_CLIP_LEVEL && b <= SHADOW_CLIP_LEVEL) shadowClipped++;
+    if (r >= HIGHLIGHT_CLIP_LEVEL || g >= HIGHLIGHT_CLIP_LEVEL || b >= HIGHLIGHT_CLIP_LEVEL) highlightClipped++;
+    total++;
+  }
+
+  return { red, green, blue, luma, total, shadowClipped, highlightClipped };
+};
+
+const meanOf = (bins: Uint32Array, total: number) => {
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * bins[i];
+  return total > 0 ? sum / total : 0;
+};
+
+const percentileOf = (bins: Uint32Array, total: number, fraction: number) => {
+  let seen = 0;
+  for (let i = 0; i < 256; i++) {
+    seen += bins[i];
+    if (seen >= total * fraction) return i;
+  }
+  return 255;
+};
+
+const describeCast = (red: number, green: number, blue: number): string => {
+  const warmth = red - blue;
+  const tint = (red + blue) / 2 - green;
+  const parts: string[] = [];
+  if (warmth > CAST_THRESHOLD) parts.push("warm (red/yellow)");
+  if (warmth < -CAST_THRESHOLD) parts.push("cool (blue)");
+  if (tint > CAST_THRESHOLD) parts.push("magenta");
+  if (tint < -CAST_THRESHOLD) parts.push("green");
+  return parts.length > 0 ? parts.join(", ") : "neutral";
+};
+
+export const computeImageStats = (histogram: Histogram): ImageStats => {
+  const { total, luma } = histogram;
+  const meanLuminance = meanOf(luma, total);
+
+  let variance = 0;
+  for (let i = 0; i < 256; i++) variance += luma[i] * (i - meanLuminance) ** 2;
+
+  const channelMeans = {
+    red: meanOf(histogram.red, total),
+    green: meanOf(histogram.green, total),
+    blue: meanOf(histogram.blue, total)
+  };
+
+  return {
+    meanLuminance,
+    medianLuminance: percentileOf(luma, total, 0.5),
+    luminanceStdDev: total > 0 ? Math.sqrt(variance / total) : 0,
+    blackLevel: percentileOf(luma, total, 0.005),
+    whiteLevel: percentileOf(luma, total, 0.995),
+    shadowClipPercent: total > 0 ? (histogram.shadowClipped / total) * 100 : 0,
+    highlightClipPercent: total > 0 ? (histogram.highlightClipped / total) * 100 : 0,
+    channelMeans,
+    colorCast: describeCast(channelMeans.red, channelMeans.green, channelMeans.blue)
+  };
+};
+
+// Measures the untouched original at a reduced size.
+export const measureImage = async (url: string): Promise<ImageStats> => {
+  const img = await loadImage(url);
+  const { width, height } = fitWithin(img.naturalWidth, img.naturalHeight, STATS_SIZE);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  ctx.drawImage(img, 0, 0, width, height);
+  return computeImageStats(computeHistogram(ctx.getImageData(0, 0, width, height)));
+};
+
+// Plain-text summary for inclusion in an AI prompt.
+export const formatStatsForPrompt = (stats: ImageStats): string => {
+  const { red, green, blue } = stats.channelMeans;
+  return [
+    `- Mean luminance: ${stats.meanLuminance.toFixed(1)} (median ${stats.medianLuminance})`,
+    `- Luminance standard deviation (global contrast): ${stats.luminanceStdDev.toFixed(1)}`,
+    `- Luminance range (0.5th to 99.5th percentile): ${stats.blackLevel} to ${stats.whiteLevel}`,
+    `- Clipped shadows: ${stats.shadowClipPercent.toFixed(2)}% of pixels`,
+    `- Clipped highlights: ${stats.highlightClipPercent.toFixed(2)}% of pixels`,
+    `- Channel means: R ${red.toFixed(1)}, G ${green.toFixed(1)}, B ${blue.toFixed(1)}`,
+    `- Estimated color cast: ${stats.colorCast}`
+  ].join("\n");
+};
@@ -0,0 +1,86 @@
+import { ExifData } from "../types";
+import { readExif, writeExif } from "./exifService";
+import { loadImage } from "./renderPipeline";
+
+/**
+ * Turns picked files into the object URLs the editor works with, keeping their EXIF metadata.
+ * The bytes stay in the Blob (disk-backed for picked files); nothing is decoded or base64-encoded here.
+ *
+ * Current browsers rotate images by their EXIF orientation when decoding, so originals are kept
+ * byte-for-byte. Browsers that don't get an upright copy instead, re-encoded once at import.
+ */
+
+export interface ImportedImage {
+  url: string;
+  exif: ExifData | null;
+}
+
+let appliesOrientation: Promise<boolean> | null = null;
+
+// Decodes a 2x1 JPEG tagged as rotated 90° and checks whether it comes back 1x2.
+const browserAppliesOrientation = (): Promise<boolean> => {
+  if (!appliesOrientation) {
+    appliesOrientation = (async () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = 2;
+      canvas.height = 1;
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg"));
+      if (!blob) return true;
+      const url = URL.createObjectURL(await writeExif(blob, { orientation: 6 }));
+      try {
+        const img = await loadImage(url);
+        return img.naturalWidth === 1;
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    })().catch(() => true);
+  }
+  return appliesOrientation;
+};
+
+// Canvas transforms for EXIF orientations 2-8; 5-8 also swap width and height.
+const orientationTransform = (orientation: number, width: number, height: number): [number, number, number, number, number, number] => {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, height, 0];
+    case 7: return [0, -1, -1, 0, height, width];
+    case 8: return [0, -1, 1, 0, 0, width];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+};
+
+const bakeOrientation = async (file: Blob, exif: ExifData): Promise<Blob> => {
+  const orientation = exif.orientation ?? 1;
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const { naturalWidth: width, naturalHeight: height } = img;
+    const swap = orientation >= 5;
+    const canvas = document.createElement("canvas");
+    canvas.width = swap ? height : width;
+    canvas.height = swap ? width : height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context is not available");
+    ctx.setTransform(...orientationTransform(orientation, width, height));
+    ctx.drawImage(img, 0, 0);
+
+    const upright = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.95));
+    if (!upright) throw new Error("Could not encode the image");
+    return writeExif(upright, { ...exif, orientation: 1 });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const importImageFile = async (file: File): Promise<ImportedImage> => {
+  // Metadata is a bonus; a file with a broken EXIF block still imports
+  const exif = file.type === "image/jpeg" ? await readExif(file).catch(() => null) : null;
+  let blob: Blob = file;
+  if (exif?.orientation && exif.orientation > 1 && !(await browserAppliesOrientation())) {
+    blob = await bakeOrientation(file, exif);
+  }
+  return { url: URL.createObjectURL(blob), exif };
+};
@@ -0,0 +1,295 @@
+import { BrushStroke, Geometry, LocalAdjustment, LocalSettings, MaskPoint, MaskShape, MaskType } from "../types";
+import { SETTING_FIELDS, SettingField, clampSetting } from "./filterSettings";
+import { Affine, applyAffine, composeAffine, croppedSize, geometryTransform, invertAffine } from "./geometry";
+
+/**
+ * Local adjustments: a subset of the slider settings applied through a mask instead of to the
+ * whole frame.
+ *
+ * Mask geometry is stored in fractions of the source image, before crop and rotation, so a mask
+ * stays on the same part of the photo when the geometry changes, and one mask fits the preview,
+ * thumbnails and full-resolution export alike. `maskWeights` rasterizes a mask through the
+ * geometry transform into per-pixel strengths from 0 to 1, which the render pipeline blends by.
+ */
+
+export const neutralLocalSettings: LocalSettings = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  highlights: 0,
+  shadows: 0,
+  warmth: 0,
+  tint: 0
+};
+
+export const LOCAL_SETTING_KEYS = Object.keys(neutralLocalSettings) as (keyof LocalSettings)[];
+
+export const MASK_TYPES: { type: MaskType; label: string }[] = [
+  { type: "linear", label: "Linear Gradient" },
+  { type: "radial", label: "Radial" },
+  { type: "brush", label: "Brush" }
+];
+
+// Fraction of the source image's long edge
+export const DEFAULT_BRUSH_RADIUS = 0.05;
+export const MIN_BRUSH_RADIUS = 0.005;
+export const MAX_BRUSH_RADIUS = 0.25;
+
+const DEFAULT_FEATHER: Record<MaskType, number> = { linear: 100, radial: 50, brush: 50 };
+
+const createAdjustmentId = () => Date.now().toString() + Math.random().toString().slice(2, 6);
+
+// New masks start where they are most often wanted: a sky gradient, a centered vignette-like ellipse
+const defaultShape = (type: MaskType): MaskShape => {
+  switch (type) {
+    case "linear":
+      return { type, start: { x: 0.5, y: 0 }, end: { x: 0.5, y: 0.4 } };
+    case "radial":
+      return { type, center: { x: 0.5, y: 0.5 }, radiusX: 0.3, radiusY: 0.3 };
+    case "brush":
+      return { type, strokes: [] };
+  }
+};
+
+// Positions in the default shape are in the visible frame; `toSource` maps them onto the photo
+const placeShape = (shape: MaskShape, toSource: (point: MaskPoint) => MaskPoint): MaskShape => {
+  switch (shape.type) {
+    case "linear":
+      return { ...shape, start: toSource(shape.start), end: toSource(shape.end) };
+    case "radial":
+      return { ...shape, center: toSource(shape.center) };
+    case "brush":
+      return shape;
+  }
+};
+
+export const createLocalAdjustment = (
+  type: MaskType,
+  existing: LocalAdjustment[],
+  toSource: (point: MaskPoint) => MaskPoint = (point) => point
+): LocalAdjustment => {
+  const label = MASK_TYPES.find((entry) => entry.type === type)?.label ?? "Mask";
+  const count = existing.filter((adjustment) => adjustment.mask.type === type).length;
+  return {
+    id: createAdjustmentId(),
+    name: `${label} ${count + 1}`,
+    mask: placeShape(defaultShape(type), toSource),
+    feather: DEFAULT_FEATHER[type],
+    invert: false,
+    settings: { ...neutralLocalSettings }
+  };
+};
+
+// True when the adjustment wouldn't change any pixel, so rendering can skip it
+export const isNeutralAdjustment = (adjustment: LocalAdjustment): boolean =>
+  LOCAL_SETTING_KEYS.every((key) => adjustment.settings[key] === neutralLocalSettings[key]) ||
+  (adjustment.mask.type === "brush" && adjustment.mask.strokes.length === 0 && !adjustment.invert);
+
+// --- Normalization of stored or imported adjustments ---
+
+// Looked up on use: filterSettings imports this module, so its fields aren't ready while this one loads
+const localFields = () =>
+  SETTING_FIELDS.filter((field): field is SettingField & { key: keyof LocalSettings } => (LOCAL_SETTING_KEYS as string[]).includes(field.key));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const finite = (value: unknown, fallback: number) => (typeof value === "number" && Number.isFinite(value) ? value : fallback);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const toPoint = (value: unknown, fallback: MaskPoint): MaskPoint =>
+  isRecord(value) ? { x: finite(value.x, fallback.x), y: finite(value.y, fallback.y) } : fallback;
+
+const toStroke = (value: unknown): BrushStroke[] => {
+  if (!isRecord(value) || !Array.isArray(value.points)) return [];
+  const points = value.points.flatMap((point: unknown) => {
+    const x = isRecord(point) ? point.x : undefined;
+    const y = isRecord(point) ? point.y : undefined;
+    return typeof x === "number" && typeof y === "number" && Number.isFinite(x) && Number.isFinite(y) ? [{ x, y }] : [];
+  });
+  if (points.length === 0) return [];
+  return [{ points, radius: clamp(finite(value.radius, DEFAULT_BRUSH_RADIUS), MIN_BRUSH_RADIUS, MAX_BRUSH_RADIUS), erase: value.erase === true }];
+};
+
+const toShape = (value: unknown): MaskShape | null => {
+  if (!isRecord(value)) return null;
+  switch (value.type) {
+    case "linear": {
+      const fallback = defaultShape("linear") as Extract<MaskShape, { type: "linear" }>;
+      return { type: "linear", start: toPoint(value.start, fallback.start), end: toPoint(value.end, fallback.end) };
+    }
+    case "radial":
+      return {
+        type: "radial",
+        center: toPoint(value.center, { x: 0.5, y: 0.5 }),
+        radiusX: clamp(finite(value.radiusX, 0.3), 0.01, 2),
+        radiusY: clamp(finite(value.radiusY, 0.3), 0.01, 2)
+      };
+    case "brush":
+      return { type: "brush", strokes: Array.isArray(value.strokes) ? value.strokes.flatMap(toStroke) : [] };
+    default:
+      return null;
+  }
+};
+
+// Drops anything that isn't a usable adjustment and fills missing fields, for settings read from storage or files
+export const normalizeLocalAdjustments = (value: unknown): LocalAdjustment[] => {
+  if (!Array.isArray(value)) return [];
+  const fields = localFields();
+  return value.flatMap((raw: unknown, index) => {
+    const mask = isRecord(raw) ? toShape(raw.mask) : null;
+    if (!isRecord(raw) || !mask) return [];
+    const rawSettings = isRecord(raw.settings) ? raw.settings : {};
+    const settings = { ...neutralLocalSettings };
+    for (const field of fields) settings[field.key] = clampSetting(field, finite(rawSettings[field.key], neutralLocalSettings[field.key]));
+    return [{
+      id: typeof raw.id === "string" && raw.id ? raw.id : createAdjustmentId() + index,
+      name: typeof raw.name === "string" && raw.name ? raw.name : `Mask ${index + 1}`,
+      mask,
+      feather: clamp(finite(raw.feather, DEFAULT_FEATHER[mask.type]), 0, 100),
+      invert: raw.invert === true,
+      settings
+    }];
+  });
+};
+
+// --- Rasterization ---
+
+// 1 up to `hard`, then easing smoothly down to 0 at a normalized distance of 1
+const falloff = (distance: number, hard: number): number => {
+  if (distance <= hard) return 1;
+  if (distance >= 1) return 0;
+  const t = (1 - distance) / (1 - hard);
+  return t * t * (3 - 2 * t);
+};
+
+const rasterizeLinear = (weights: Float32Array, width: number, height: number, start: MaskPoint, end: MaskPoint, feather: number) => {
+  const { x: sx, y: sy } = start;
+  const dx = end.x - sx;
+  const dy = end.y - sy;
+  const lengthSquared = Math.max(dx * dx + dy * dy, 1);
+  // The fade is centered between the two points and covers `feather` of the distance between them
+  const low = (1 - feather) / 2;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const t = ((x + 0.5 - sx) * dx + (y + 0.5 - sy) * dy) / lengthSquared;
+      weights[y * width + x] = feather === 0 ? (t < 0.5 ? 1 : 0) : 1 - falloff(1 - (t - low) / feather, 0);
+    }
+  }
+};
+
+// The ellipse is given by its center and two perpendicular semi-axes in pixels, which rotation leaves at any angle
+const rasterizeRadial = (
+  weights: Float32Array,
+  width: number,
+  height: number,
+  center: MaskPoint,
+  axisX: MaskPoint,
+  axisY: MaskPoint,
+  feather: number
+) => {
+  const lengthX = Math.max(axisX.x * axisX.x + axisX.y * axisX.y, 0.25);
+  const lengthY = Math.max(axisY.x * axisY.x + axisY.y * axisY.y, 0.25);
+  // Pixels outside the ellipse's bounding box stay 0
+  const reachX = Math.hypot(axisX.x, axisY.x);
+  const reachY = Math.hypot(axisX.y, axisY.y);
+  const x0 = Math.max(0, Math.floor(center.x - reachX));
+  const x1 = Math.min(width, Math.ceil(center.x + reachX));
+  const y0 = Math.max(0, Math.floor(center.y - reachY));
+  const y1 = Math.min(height, Math.ceil(center.y + reachY));
+  for (let y = y0; y < y1; y++) {
+    const py = y + 0.5 - center.y;
+    for (let x = x0; x < x1; x++) {
+      const px = x + 0.5 - center.x;
+      const nx = (px * axisX.x + py * axisX.y) / lengthX;
+      const ny = (px * axisY.x + py * axisY.y) / lengthY;
+      weights[y * width + x] = falloff(Math.sqrt(nx * nx + ny * ny), 1 - feather);
+    }
+  }
+};
+
+// Each stroke is a chain of round-capped segments; painting keeps the strongest coverage, erasing cuts it back
+const rasterizeStroke = (weights: Float32Array, width: number, height: number, points: MaskPoint[], radius: number, erase: boolean, feather: number) => {
+  radius = Math.max(radius, 0.5);
+  const hard = 1 - feather;
+  const segments = points.length === 1 ? [[points[0], points[0]]] : points.slice(1).map((point, i) => [points[i], point]);
+
+  for (const [a, b] of segments) {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const x0 = Math.max(0, Math.floor(Math.min(a.x, b.x) - radius));
+    const x1 = Math.min(width, Math.ceil(Math.max(a.x, b.x) + radius));
+    const y0 = Math.max(0, Math.floor(Math.min(a.y, b.y) - radius));
+    const y1 = Math.min(height, Math.ceil(Math.max(a.y, b.y) + radius));
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const px = x + 0.5 - a.x;
+        const py = y + 0.5 - a.y;
+        const t = lengthSquared > 0 ? clamp((px * dx + py * dy) / lengthSquared, 0, 1) : 0;
+        const ex = px - t * dx;
+        const ey = py - t * dy;
+        const coverage = falloff(Math.sqrt(ex * ex + ey * ey) / radius, hard);
+        if (coverage === 0) continue;
+        const i = y * width + x;
+        weights[i] = erase ? Math.min(weights[i], 1 - coverage) : Math.max(weights[i], coverage);
+      }
+    }
+  }
+};
+
+// Pixels spanned by the source's long edge, which brush radii are fractions of
+export const brushScale = (transform: Affine) => Math.max(Math.hypot(transform.a, transform.b), Math.hypot(transform.c, transform.d));
+
+/**
+ * Maps mask coordinates, in fractions of a `sourceWidth` x `sourceHeight` image, to the pixels of a render
+ * through `geometry` at `scale` output pixels per source pixel. Only the source's shape matters, so a
+ * downscaled preview of it gives the same map as the original.
+ */
+export const maskTransform = (sourceWidth: number, sourceHeight: number, geometry: Geometry, scale: number): Affine =>
+  composeAffine(geometryTransform(sourceWidth, sourceHeight, geometry, scale), { a: sourceWidth, b: 0, c: 0, d: sourceHeight, e: 0, f: 0 });
+
+/**
+ * Maps a point in fractions of the cropped output to mask coordinates, e.g. to place a new mask in view.
+ */
+export const viewToMask = (sourceWidth: number, sourceHeight: number, geometry: Geometry) => {
+  const cropped = croppedSize(sourceWidth, sourceHeight, geometry);
+  const toSource = invertAffine(maskTransform(sourceWidth, sourceHeight, geometry, 1));
+  return (point: MaskPoint): MaskPoint => applyAffine(toSource, { x: point.x * cropped.width, y: point.y * cropped.height });
+};
+
+/**
+ * The mask's strength at every pixel of a `width` x `height` render, row by row, from 0 to 1.
+ * `transform` maps mask coordinates to the render's pixels, see `maskTransform`; without one the
+ * render is taken to be the whole, untransformed source.
+ */
+export const maskWeights = (
+  adjustment: LocalAdjustment,
+  width: number,
+  height: number,
+  transform: Affine = { a: width, b: 0, c: 0, d: height, e: 0, f: 0 }
+): Float32Array => {
+  const weights = new Float32Array(width * height);
+  const feather = clamp(adjustment.feather, 0, 100) / 100;
+  const toPixels = (point: MaskPoint) => applyAffine(transform, point);
+  const { mask } = adjustment;
+  if (mask.type === "linear") {
+    rasterizeLinear(weights, width, height, toPixels(mask.start), toPixels(mask.end), feather);
+  } else if (mask.type === "radial") {
+    // Radii are fractions of the source's width and height, so the axes go through the map without its offset
+    const axisX = { x: transform.a * mask.radiusX, y: transform.b * mask.radiusX };
+    const axisY = { x: transform.c * mask.radiusY, y: transform.d * mask.radiusY };
+    rasterizeRadial(weights, width, height, toPixels(mask.center), axisX, axisY, feather);
+  } else {
+    const longEdge = brushScale(transform);
+    for (const stroke of mask.strokes) {
+      rasterizeStroke(weights, width, height, stroke.points.map(toPixels), stroke.radius * longEdge, stroke.erase, feather);
+    }
+  }
+
+  if (adjustment.invert) {
+    for (let i = 0; i < weights.length; i++) weights[i] = 1 - weights[i];
+  }
+  return weights;
+};
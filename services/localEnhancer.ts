@@ -0,0 +1,250 @@
+import { AnalysisResult, FilterSettings, SuggestedSettings } from "../types";
+import { EnhancementProvider, EnhancementRequest, RefinementRequest } from "./enhancementProvider";
+import { ImageStats, measureImage } from "./imageStats";
+import { NumericSettingKey, SETTING_FIELDS, defaultSettings } from "./filterSettings";
+
+/**
+ * Rule-based auto-enhance that runs entirely in the browser.
+ *
+ * It only sees the measured statistics, so it fixes exposure, levels, clipping and color casts
+ * and understands a handful of prompt keywords; it can't recognize what is in the photo.
+ */
+
+// Where a well-exposed photo tends to sit, on the 0-255 luminance scale
+const TARGET_MEDIAN = 118;
+const TARGET_STD_DEV = 56;
+
+interface Style {
+  strength: number;   // Scales every correction
+  saturation: number; // Starting saturation before prompt keywords
+}
+
+const STYLES: Record<string, Style> = {
+  subtle: { strength: 0.5, saturation: 104 },
+  balanced: { strength: 1, saturation: 110 },
+  vivid: { strength: 1.3, saturation: 124 }
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const round = (value: number) => Math.round(value);
+
+// Prompt keywords and what they change, applied after the corrections in this order
+const KEYWORDS: { pattern: RegExp; note: string; apply: (settings: FilterSettings) => Partial<FilterSettings> }[] = [
+  {
+    pattern: /\b(black and white|black & white|b&w|b\/w|monochrome|grayscale|greyscale)\b/i,
+    note: "converted to black and white",
+    apply: (s) => ({ grayscale: 100, saturation: 100, contrast: s.contrast + 10 })
+  },
+  {
+    pattern: /\b(vintage|retro|film|faded|analog)\b/i,
+    note: "faded the blacks for a film look",
+    apply: (s) => ({ sepia: 20, saturation: s.saturation - 15, blackPoint: 0, grain: 20, curves: { ...s.curves, rgb: [{ x: 0, y: 28 }, { x: 255, y: 240 }] } })
+  },
+  { pattern: /\b(warm|warmer|golden|sunset|cozy)\b/i, note: "warmed the tones", apply: (s) => ({ warmth: s.warmth + 25 }) },
+  { pattern: /\b(cool|cooler|cold|icy|winter)\b/i, note: "cooled the tones", apply: (s) => ({ warmth: s.warmth - 25 }) },
+  { pattern: /\b(moody|dramatic|cinematic)\b/i, note: "darkened it for mood", apply: (s) => ({ brightness: s.brightness - 10, contrast: s.contrast + 12, saturation: s.saturation - 10, vignette: -30 }) },
+  { pattern: /\b(brighter|airy|high.?key)\b/i, note: "brightened it", apply: (s) => ({ brightness: s.brightness + 12, shadows: s.shadows + 15 }) },
+  { pattern: /\b(vibrant|vivid|punchy|colorful|colourful|pop)\b/i, note: "boosted the color", apply: (s) => ({ saturation: s.saturation + 20 }) },
+  { pattern: /\b(muted|desaturated|soft|pastel)\b/i, note: "muted the color", apply: (s) => ({ saturation: s.saturation - 25, contrast: s.contrast - 8 }) },
+  { pattern: /\b(contrast|crisp|bold)\b/i, note: "added contrast", apply: (s) => ({ contrast: s.contrast + 15 }) },
+  { pattern: /\b(sharp|sharpen|detailed|texture|gritty)\b/i, note: "brought out detail", apply: (s) => ({ clarity: s.clarity + 25, sharpen: s.sharpen + 30 }) },
+  { pattern: /\b(grain|grainy|noisy)\b/i, note: "added film grain", apply: (s) => ({ grain: Math.max(s.grain, 30) }) },
+  { pattern: /\bvignette\b/i, note: "added a vignette", apply: (s) => ({ vignette: Math.min(s.vignette, -35) }) }
+];
+
+// Variants are the same analysis with a style keyword added to the prompt
+const LOOKS: { name: string; keywords: string }[] = [
+  { name: "Natural", keywords: "" },
+  { name: "Moody", keywords: "moody" },
+  { name: "Vibrant", keywords: "vibrant" },
+  { name: "Film", keywords: "vintage warm" },
+  { name: "Black & White", keywords: "black and white contrast" },
+  { name: "Airy", keywords: "airy muted" }
+];
+
+type RefinableKey = Exclude<NumericSettingKey, "lutIntensity">;
+
+// Settings a follow-up can name, the words for them, and how far one "more" moves them
+const REFINABLE: { key: RefinableKey; words: RegExp; step: number }[] = [
+  { key: "brightness", words: /\b(brightness|exposure)\b/, step: 10 },
+  { key: "contrast", words: /\bcontrast\b/, step: 12 },
+  { key: "saturation", words: /\b(saturation|color|colour|colors|colours|vibrance)\b/, step: 15 },
+  { key: "warmth", words: /\b(warmth|temperature)\b/, step: 15 },
+  { key: "tint", words: /\b(tint|magenta)\b/, step: 10 },
+  { key: "highlights", words: /\bhighlights\b/, step: 15 },
+  { key: "shadows", words: /\bshadows\b/, step: 15 },
+  { key: "sepia", words: /\bsepia\b/, step: 15 },
+  { key: "grayscale", words: /\b(grayscale|greyscale)\b/, step: 25 },
+  { key: "blur", words: /\bblur\b/, step: 1 },
+  { key: "clarity", words: /\b(clarity|texture|detail)\b/, step: 15 },
+  { key: "sharpen", words: /\b(sharpening|sharpness)\b/, step: 15 },
+  { key: "vignette", words: /\bvignette\b/, step: -15 }, // "More vignette" means darker edges
+  { key: "grain", words: /\b(grain|noise)\b/, step: 10 }
+];
+
+// Words that name a setting and a direction at once
+const COMPARATIVES: { words: RegExp; key: RefinableKey; sign: 1 | -1 }[] = [
+  { words: /\bwarmer\b/, key: "warmth", sign: 1 },
+  { words: /\b(cooler|colder)\b/, key: "warmth", sign: -1 },
+  { words: /\bbrighter\b/, key: "brightness", sign: 1 },
+  { words: /\bdarker\b/, key: "brightness", sign: -1 },
+  { words: /\b(punchier|crisper)\b/, key: "contrast", sign: 1 },
+  { words: /\b(flatter|softer)\b/, key: "contrast", sign: -1 },
+  { words: /\b(more colorful|more colourful|richer)\b/, key: "saturation", sign: 1 },
+  { words: /\b(duller|more muted)\b/, key: "saturation", sign: -1 },
+  { words: /\bsharper\b/, key: "sharpen", sign: 1 },
+  { words: /\b(grainier|grittier)\b/, key: "grain", sign: 1 }
+];
+
+const MORE = /\b(more|increase|boost|raise|add|up|higher|stronger)\b/;
+const LESS = /\b(less|decrease|reduce|lower|tone down|down|remove|weaker|fewer)\b/;
+
+// "a bit warmer" moves half as far, "much warmer" twice as far
+const amountOf = (clause: string) =>
+  /\b(a (little |tiny )?bit|slightly|a touch|a little|subtly)\b/.test(clause) ? 0.5 : /\b(much|a lot|way|lots|very)\b/.test(clause) ? 2 : 1;
+
+const describeLevel = (median: number) => (median < 90 ? "underexposed" : median > 150 ? "bright" : "well exposed");
+
+// Corrections derived from the statistics alone
+const correct = (stats: ImageStats, style: Style, notes: string[]): FilterSettings => {
+  const k = style.strength;
+  const settings: FilterSettings = { ...defaultSettings, saturation: style.saturation };
+
+  // Stretch the levels when the histogram doesn't reach black or white
+  if (stats.blackLevel > 6 && stats.shadowClipPercent < 0.5) {
+    settings.blackPoint = round(Math.min(stats.blackLevel * k, 48));
+  }
+  if (stats.whiteLevel < 245 && stats.highlightClipPercent < 0.5) {
+    settings.whitePoint = round(Math.max(255 - (255 - stats.whiteLevel) * k, 200));
+  }
+  if (settings.blackPoint > 0 || settings.whitePoint < 255) notes.push("stretched the levels to use the full range");
+
+  const exposure = (TARGET_MEDIAN - stats.medianLuminance) / TARGET_MEDIAN;
+  settings.brightness = round(100 + clamp(exposure * 45 * k, -25, 40));
+  settings.contrast = round(100 + clamp((TARGET_STD_DEV - stats.luminanceStdDev) * 0.6 * k, -15, 30));
+
+  if (stats.highlightClipPercent > 1) {
+    settings.highlights = round(-clamp(stats.highlightClipPercent * 8 * k, 10, 70));
+    notes.push("pulled back clipped highlights");
+  }
+  if (stats.shadowClipPercent > 1 || stats.medianLuminance < 80) {
+    settings.shadows = round(clamp(Math.max(stats.shadowClipPercent * 8, 80 - stats.medianLuminance) * k, 10, 60));
+    notes.push("lifted the shadows");
+  }
+
+  // Neutralize casts; `warmth` and `tint` push the opposite way to what was measured
+  const { red, green, blue } = stats.channelMeans;
+  const warmCast = red - blue;
+  const magentaCast = (red + blue) / 2 - green;
+  if (Math.abs(warmCast) > 6) {
+    settings.warmth = round(clamp(-warmCast * 1.2 * k, -40, 40));
+    notes.push(warmCast > 0 ? "cooled a warm cast" : "warmed a cool cast");
+  }
+  if (Math.abs(magentaCast) > 6) {
+    settings.tint = round(clamp(-magentaCast * 1.2 * k, -40, 40));
+    notes.push(magentaCast > 0 ? "removed a magenta cast" : "removed a green cast");
+  }
+  return settings;
+};
+
+// Nudges the photo toward the reference's exposure and color balance
+const matchReference = (settings: FilterSettings, stats: ImageStats, reference: ImageStats, notes: string[]): FilterSettings => {
+  const exposure = (reference.medianLuminance - stats.medianLuminance) / TARGET_MEDIAN;
+  const warm = (reference.channelMeans.red - reference.channelMeans.blue) - (stats.channelMeans.red - stats.channelMeans.blue);
+  notes.push("matched the reference's exposure and color balance");
+  return {
+    ...settings,
+    brightness: round(100 + clamp(exposure * 45, -30, 40)),
+    contrast: round(100 + clamp((reference.luminanceStdDev - stats.luminanceStdDev) * 0.6, -20, 30)),
+    warmth: round(clamp(warm * 1.2, -50, 50))
+  };
+};
+
+const analyzeLocally = async ({ imageBase64, prompt, referenceImageBase64, stats, model }: EnhancementRequest): Promise<AnalysisResult> => {
+  const style = STYLES[model] ?? STYLES.balanced;
+  // Browsers sniff the actual format, so the declared type doesn't have to be exact
+  const measured = stats ?? await measureImage(`data:image/jpeg;base64,${imageBase64}`);
+  const notes: string[] = [];
+
+  let settings = correct(measured, style, notes);
+  if (referenceImageBase64) {
+    const reference = await measureImage(`data:image/jpeg;base64,${referenceImageBase64}`).catch(() => undefined);
+    if (reference) settings = matchReference(settings, measured, reference, notes);
+  }
+  for (const keyword of KEYWORDS) {
+    if (!keyword.pattern.test(prompt)) continue;
+    settings = { ...settings, ...keyword.apply(settings) };
+    notes.push(keyword.note);
+  }
+
+  const summary = notes.length > 0 ? notes.join(", ") : "left the balance alone";
+  return {
+    reasoning: `Measured a ${describeLevel(measured.medianLuminance)} photo with a ${measured.colorCast} balance; ${summary}.`,
+    // Keyword nudges can overshoot the slider ranges; validation clamps them afterwards
+    suggestedSettings: settings
+  };
+};
+
+// Understands phrases like "a bit warmer, less contrast"; anything else falls back to the style keywords
+const refineLocally = async ({ prompt, current }: RefinementRequest): Promise<AnalysisResult> => {
+  let settings: SuggestedSettings = { ...current };
+  const changes: string[] = [];
+  const nudge = (key: RefinableKey, amount: number) => {
+    const field = SETTING_FIELDS.find((candidate) => candidate.key === key);
+    const step = field?.step ?? 1;
+    const delta = Math.round(amount / step) * step;
+    settings = { ...settings, [key]: settings[key] + delta };
+    changes.push(`${delta > 0 ? "raised" : "lowered"} ${field?.label.toLowerCase() ?? key} by ${Math.abs(delta)}`);
+  };
+
+  for (const clause of prompt.toLowerCase().split(/,|;|\band\b|\bbut\b/)) {
+    const amount = amountOf(clause);
+    for (const comparative of COMPARATIVES) {
+      const field = REFINABLE.find((candidate) => candidate.key === comparative.key);
+      if (field && comparative.words.test(clause)) nudge(field.key, comparative.sign * field.step * amount);
+    }
+    const sign = LESS.test(clause) ? -1 : MORE.test(clause) ? 1 : 0;
+    if (sign === 0) continue;
+    for (const field of REFINABLE) {
+      if (field.words.test(clause)) nudge(field.key, sign * field.step * amount);
+    }
+  }
+
+  if (changes.length === 0) {
+    for (const keyword of KEYWORDS) {
+      if (!keyword.pattern.test(prompt)) continue;
+      settings = { ...settings, ...keyword.apply({ ...defaultSettings, ...settings }) };
+      changes.push(keyword.note);
+    }
+  }
+
+  return {
+    reasoning: changes.length > 0
+      ? `${changes.join(", ")}.`.replace(/^./, (first) => first.toUpperCase())
+      : "I couldn't tell what to change. Try phrases like \"more contrast\" or \"a bit warmer\".",
+    suggestedSettings: settings
+  };
+};
+
+export const localProvider: EnhancementProvider = {
+  id: "local",
+  label: "On-device",
+  description: "Rule-based auto-enhance from the photo's histogram. Works offline and never uploads your photos, but only understands simple prompt keywords like \"warm\", \"moody\" or \"black and white\".",
+  models: [
+    { id: "balanced", label: "Balanced", description: "Corrects exposure, levels and color casts." },
+    { id: "subtle", label: "Subtle", description: "Half-strength corrections." },
+    { id: "vivid", label: "Vivid", description: "Stronger corrections and richer color." }
+  ],
+  unavailableReason: () => undefined,
+  analyze: analyzeLocally,
+  suggestVariants: async (request, count) => {
+    // Measured once rather than once per look
+    const stats = request.stats ?? await measureImage(`data:image/jpeg;base64,${request.imageBase64}`);
+    return Promise.all(LOOKS.slice(0, count).map(async (look) => ({
+      name: look.name,
+      ...(await analyzeLocally({ ...request, stats, prompt: `${request.prompt} ${look.keywords}` }))
+    })));
+  },
+  refine: refineLocally
+};
@@ -0,0 +1,156 @@
+import { Lut3D } from "../types";
+
+/**
+ * Parsing, writing and sampling of 3D LUTs in the Adobe/Resolve `.cube` format.
+ *
+ * Loaded LUTs live in a module-level registry keyed by ID so the render pipeline can resolve
+ * `FilterSettings.lutId` without the LUT data being copied into every settings snapshot.
+ * Parsed LUTs are identified by their content, so loading a .cube file again finds the photos
+ * that used it.
+ */
+
+// 65 is the largest size in common use; 256 would be a 200 MB table
+const MAX_LUT_SIZE = 65;
+
+const registry = new Map<string, Lut3D>();
+
+export const registerLut = (lut: Lut3D) => {
+  registry.set(lut.id, lut);
+};
+
+export const unregisterLut = (id: string) => {
+  registry.delete(id);
+};
+
+export const getLut = (id: string | null | undefined): Lut3D | undefined => (id ? registry.get(id) : undefined);
+
+// The same grading table whatever its name or ID. Tolerant because .cube files keep 6 decimals.
+export const sameLutData = (a: Lut3D, b: Lut3D): boolean =>
+  a.size === b.size &&
+  a.domainMin.every((value, c) => value === b.domainMin[c]) &&
+  a.domainMax.every((value, c) => value === b.domainMax[c]) &&
+  a.data.every((value, i) => Math.abs(value - b.data[i]) <= 1e-6);
+
+export const createLutId = () => "lut-" + Date.now().toString() + Math.random().toString().slice(2, 8);
+
+// 32-bit FNV-1a of the table and its domain
+const contentLutId = (domainMin: number[], domainMax: number[], data: Float32Array): string => {
+  let hash = 0x811c9dc5;
+  for (const bytes of [new Uint8Array(Float32Array.from([...domainMin, ...domainMax]).buffer), new Uint8Array(data.buffer)]) {
+    for (let i = 0; i < bytes.length; i++) hash = Math.imul(hash ^ bytes[i], 0x01000193);
+  }
+  return "lut-" + (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+const parseTriple = (parts: string[], line: string): [number, number, number] => {
+  const values = parts.slice(0, 3).map(Number);
+  if (values.length < 3 || values.some((v) => !Number.isFinite(v))) {
+    throw new Error(`Invalid line in .cube file: "${line}"`);
+  }
+  return values as [number, number, number];
+};
+
+/**
+ * Parses a .cube file. Only 3D LUTs are supported.
+ * Throws an Error with a user-facing message when the file can't be used.
+ */
+export const parseCubeFile = (text: string, fallbackName: string): Lut3D => {
+  let title = "";
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  let data: Float32Array | null = null;
+  let count = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const parts = line.split(/\s+/);
+    const keyword = parts[0].toUpperCase();
+
+    if (keyword === "TITLE") {
+      title = line.slice(5).trim().replace(/^"|"$/g, "");
+    } else if (keyword === "LUT_1D_SIZE") {
+      throw new Error("1D LUTs aren't supported. Please use a 3D .cube LUT.");
+    } else if (keyword === "LUT_3D_SIZE") {
+      size = parseInt(parts[1], 10);
+      if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+        throw new Error(`Unsupported LUT size: ${parts[1]}`);
+      }
+      data = new Float32Array(size * size * size * 3);
+    } else if (keyword === "DOMAIN_MIN") {
+      domainMin = parseTriple(parts.slice(1), line);
+    } else if (keyword === "DOMAIN_MAX") {
+      domainMax = parseTriple(parts.slice(1), line);
+    } else if (/^[-+.\d]/.test(keyword)) {
+      if (!data) throw new Error("The .cube file is missing LUT_3D_SIZE before its data.");
+      if (count >= size * size * size) throw new Error("The .cube file has more entries than its LUT_3D_SIZE.");
+      data.set(parseTriple(parts, line), count * 3);
+      count++;
+    }
+    // Other keywords (e.g. LUT_3D_INPUT_RANGE from some tools) are ignored
+  }
+
+  if (!data) throw new Error("This doesn't look like a 3D .cube LUT.");
+  if (count !== size * size * size) {
+    throw new Error(`The .cube file has ${count} entries but LUT_3D_SIZE ${size} needs ${size * size * size}.`);
+  }
+
+  return { id: contentLutId(domainMin, domainMax, data), name: title || fallbackName, size, domainMin, domainMax, data };
+};
+
+export const serializeCube = (lut: Lut3D): string => {
+  const lines = [
+    `TITLE "${lut.name.replace(/"/g, "'")}"`,
+    `# Created with BananaLens`,
+    `LUT_3D_SIZE ${lut.size}`,
+    `DOMAIN_MIN ${lut.domainMin.join(" ")}`,
+    `DOMAIN_MAX ${lut.domainMax.join(" ")}`
+  ];
+  for (let i = 0; i < lut.data.length; i += 3) {
+    lines.push(`${lut.data[i].toFixed(6)} ${lut.data[i + 1].toFixed(6)} ${lut.data[i + 2].toFixed(6)}`);
+  }
+  return lines.join("\n") + "\n";
+};
+
+/**
+ * Applies a LUT in place with trilinear interpolation, blended with the input by `intensity` (0-1).
+ */
+export const applyLutToPixels = (data: Uint8ClampedArray, lut: Lut3D, intensity: number) => {
+  const { size, domainMin, domainMax } = lut;
+  const table = lut.data;
+  const max = size - 1;
+  const strideG = size * 3;
+  const strideB = size * size * 3;
+  const scale = [0, 1, 2].map((c) => max / ((domainMax[c] - domainMin[c]) * 255));
+  const offset = [0, 1, 2].map((c) => domainMin[c] * 255);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const sr = data[i];
+    const sg = data[i + 1];
+    const sb = data[i + 2];
+
+    const fr = Math.min(max, Math.max(0, (sr - offset[0]) * scale[0]));
+    const fg = Math.min(max, Math.max(0, (sg - offset[1]) * scale[1]));
+    const fb = Math.min(max, Math.max(0, (sb - offset[2]) * scale[2]));
+    const r0 = Math.min(max - 1, Math.floor(fr));
+    const g0 = Math.min(max - 1, Math.floor(fg));
+    const b0 = Math.min(max - 1, Math.floor(fb));
+    const dr = fr - r0;
+    const dg = fg - g0;
+    const db = fb - b0;
+
+    const base = r0 * 3 + g0 * strideG + b0 * strideB;
+    for (let c = 0; c < 3; c++) {
+      const p = base + c;
+      const c00 = table[p] * (1 - dr) + table[p + 3] * dr;
+      const c10 = table[p + strideG] * (1 - dr) + table[p + strideG + 3] * dr;
+      const c01 = table[p + strideB] * (1 - dr) + table[p + strideB + 3] * dr;
+      const c11 = table[p + strideG + strideB] * (1 - dr) + table[p + strideG + strideB + 3] * dr;
+      const value = ((c00 * (1 - dg) + c10 * dg) * (1 - db) + (c01 * (1 - dg) + c11 * dg) * db) * 255;
+      const source = c === 0 ? sr : c === 1 ? sg : sb;
+      data[i + c] = source + (value - source) * intensity;
+    }
+  }
+};
@@ -0,0 +1,125 @@
+import { FilterSettings, Preset } from "../types";
+import { loadImage, renderToCanvas } from "./renderPipeline";
+import { getPreviewUrl } from "./previewService";
+import { SETTINGS_SCHEMA_VERSION, migrateSettings } from "./storageService";
+
+/**
+ * Preset library helpers and the shareable preset file format.
+ *
+ * A preset file is UTF-8 JSON with this shape:
+ *
+ *   {
+ *     "format": "bananalens-presets",   // Always this string
+ *     "version": 1,                      // Version of this envelope
+ *     "settingsVersion": ...,            // SETTINGS_SCHEMA_VERSION of the app that saved the file
+ *     "exportedAt": "2025-01-31T12:00:00.000Z",
+ *     "presets": [
+ *       {
+ *         "name": "Warm Film",
+ *         "settings": { "brightness": 105, "contrast": 95, ... },  // Any subset of FilterSettings
+ *         "thumbnail": "data:image/jpeg;base64,...",              // Optional
+ *         "prompt": "Warm vintage film",                          // Optional
+ *         "reasoning": "Lifted blacks and warmed midtones ...",   // Optional
+ *         "createdAt": 1738324800000                              // Optional, epoch ms
+ *       }
+ *     ]
+ *   }
+ *
+ * Missing settings fall back to defaults and older settingsVersions are migrated on import.
+ * Preset IDs are local to each browser and are never written to the file.
+ */
+
+export const PRESET_FILE_FORMAT = "bananalens-presets";
+export const PRESET_FILE_VERSION = 1;
+
+const THUMBNAIL_SIZE = 160;
+
+interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  settingsVersion: number;
+  exportedAt: string;
+  presets: Omit<Preset, "id">[];
+}
+
+// Masks are drawn for one photo's content, so a look never carries them from photo to photo
+const withoutMasks = (settings: FilterSettings): FilterSettings => ({ ...settings, localAdjustments: [] });
+
+/** `target` with the preset's look, keeping the masks already painted on the target photo. */
+export const applyPresetSettings = (preset: Preset, target: FilterSettings): FilterSettings => ({
+  ...preset.settings,
+  localAdjustments: target.localAdjustments
+});
+
+const createPresetId = () => "preset-" + Date.now().toString() + Math.random().toString().slice(2, 8);
+
+export const createPreset = (
+  name: string,
+  settings: FilterSettings,
+  extras: Pick<Preset, "thumbnail" | "prompt" | "reasoning"> = {}
+): Preset => ({
+  id: createPresetId(),
+  name: name.trim() || "Untitled Look",
+  settings: withoutMasks(settings),
+  createdAt: Date.now(),
+  ...extras
+});
+
+// Renders a small JPEG of the look applied to the given image.
+export const createPresetThumbnail = async (imageUrl: string, settings: FilterSettings): Promise<string> => {
+  const img = await loadImage(await getPreviewUrl(imageUrl, THUMBNAIL_SIZE));
+  return renderToCanvas(img, settings, { maxSize: THUMBNAIL_SIZE }).toDataURL("image/jpeg", 0.8);
+};
+
+export const serializePresets = (presets: Preset[]): string => {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    settingsVersion: SETTINGS_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets: presets.map(({ id, ...preset }) => preset)
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => (typeof value === "string" && value ? value : undefined);
+
+// Only inline images are accepted so an imported file can't make the app fetch remote URLs.
+const optionalThumbnail = (value: unknown) =>
+  typeof value === "string" && value.startsWith("data:image/") ? value : undefined;
+
+/**
+ * Parses a preset file into new presets with fresh IDs.
+ * Throws an Error with a user-facing message when the file isn't a valid preset file.
+ */
+export const parsePresetFile = (text: string): Preset[] => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid JSON.");
+  }
+
+  if (!isRecord(file) || file.format !== PRESET_FILE_FORMAT || !Array.isArray(file.presets)) {
+    throw new Error("This isn't a BananaLens preset file.");
+  }
+  if (typeof file.version !== "number" || file.version > PRESET_FILE_VERSION) {
+    throw new Error("This preset file was made by a newer version of BananaLens.");
+  }
+
+  const settingsVersion = typeof file.settingsVersion === "number" ? file.settingsVersion : 0;
+  return file.presets
+    .filter((raw: unknown): raw is Record<string, unknown> => isRecord(raw) && isRecord(raw.settings))
+    .map((raw) => ({
+      id: createPresetId(),
+      name: optionalString(raw.name) ?? "Imported Look",
+      settings: withoutMasks(migrateSettings(raw.settings, settingsVersion)),
+      thumbnail: optionalThumbnail(raw.thumbnail),
+      prompt: optionalString(raw.prompt),
+      reasoning: optionalString(raw.reasoning),
+      createdAt: typeof raw.createdAt === "number" ? raw.createdAt : Date.now()
+    }));
+};
@@ -0,0 +1,114 @@
+import type { PreviewRequest, PreviewResponse } from "./previewWorker";
+import { defaultSettings } from "./filterSettings";
+import { loadImage, renderToCanvas } from "./renderPipeline";
+
+/**
+ * Downscaled copies of originals for everything that doesn't need full resolution: grid tiles,
+ * the editor preview, preset thumbnails and AI analysis. Decoding a 24MP photo takes around
+ * 100MB, so it happens once per photo in a Web Worker and only a small JPEG comes back.
+ * Full-resolution originals are decoded only for export.
+ *
+ * Previews come in a few fixed sizes, each serving every render up to that size, and are cached
+ * by source URL until `releasePreviews` or `releaseOriginal` is called for it.
+ */
+
+// The collection grid tiles and the editor preview
+export const PREVIEW_SIZES = [480, 1600];
+
+const PREVIEW_QUALITY = 0.9;
+
+const cache = new Map<string, Promise<string>>();
+
+// undefined until first use; null where workers or OffscreenCanvas aren't available
+let worker: Worker | null | undefined;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (blob: Blob | null) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === "undefined" || typeof OffscreenCanvas === "undefined") return (worker = null);
+  try {
+    worker = new Worker(new URL("./previewWorker.ts", import.meta.url), { type: "module" });
+  } catch {
+    return (worker = null);
+  }
+  worker.onmessage = ({ data }: MessageEvent<PreviewResponse>) => {
+    const request = pending.get(data.id);
+    pending.delete(data.id);
+    if (data.error !== undefined) request?.reject(new Error(data.error));
+    else request?.resolve(data.blob ?? null);
+  };
+  // A worker that fails to start takes every queued request with it; later ones use the main thread
+  worker.onerror = () => {
+    worker?.terminate();
+    worker = null;
+    pending.forEach((request) => request.reject(new Error("The preview worker stopped")));
+    pending.clear();
+  };
+  return worker;
+};
+
+const resizeInWorker = (blob: Blob, maxSize: number): Promise<Blob | null> => {
+  const target = getWorker();
+  if (!target) return Promise.reject(new Error("Preview worker is not available"));
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    const request: PreviewRequest = { id, blob, maxSize, quality: PREVIEW_QUALITY };
+    target.postMessage(request);
+  });
+};
+
+const resizeOnMainThread = async (src: string, maxSize: number): Promise<Blob | null> => {
+  const img = await loadImage(src);
+  if (Math.max(img.naturalWidth, img.naturalHeight) <= maxSize) return null;
+  const canvas = renderToCanvas(img, defaultSettings, { maxSize });
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the preview"))), "image/jpeg", PREVIEW_QUALITY)
+  );
+};
+
+const createPreview = async (src: string, maxSize: number): Promise<string> => {
+  let preview: Blob | null;
+  try {
+    preview = await resizeInWorker(await (await fetch(src)).blob(), maxSize);
+  } catch {
+    preview = await resizeOnMainThread(src, maxSize);
+  }
+  // Originals that are already small enough are used as they are
+  return preview ? URL.createObjectURL(preview) : src;
+};
+
+// The preview size that serves `maxSize`, or Infinity when only the original is big enough
+export const previewSize = (maxSize: number): number => PREVIEW_SIZES.find((size) => size >= maxSize) ?? Infinity;
+
+/** A URL of `src` scaled to fit within at least `maxSize`; `src` itself when no preview size is big enough. */
+export const getPreviewUrl = (src: string, maxSize: number): Promise<string> => {
+  const size = previewSize(maxSize);
+  if (size === Infinity || !src) return Promise.resolve(src);
+  const key = `${size} ${src}`;
+  let preview = cache.get(key);
+  if (!preview) {
+    preview = createPreview(src, size);
+    cache.set(key, preview);
+    preview.catch(() => cache.delete(key));
+  }
+  return preview;
+};
+
+// Frees the previews of a photo that is gone; renders already showing them keep their pixels
+export const releasePreviews = (src: string) => {
+  for (const size of PREVIEW_SIZES) {
+    const key = `${size} ${src}`;
+    const preview = cache.get(key);
+    if (!preview) continue;
+    cache.delete(key);
+    preview.then((url) => { if (url !== src) URL.revokeObjectURL(url); }, () => undefined);
+  }
+};
+
+// Frees an original object URL that nothing refers to any more, along with its previews
+export const releaseOriginal = (src: string) => {
+  releasePreviews(src);
+  if (src.startsWith("blob:")) URL.revokeObjectURL(src);
+};
@@ -0,0 +1,62 @@
+/**
+ * Web Worker that decodes an original and sends back a downscaled JPEG, so full-resolution
+ * pixels never reach the main thread. Self-contained on purpose: the render pipeline's modules
+ * touch `document`, which workers don't have. See previewService for the main-thread side.
+ */
+
+export interface PreviewRequest {
+  id: number;
+  blob: Blob;
+  maxSize: number;  // Long edge of the preview
+  quality: number;  // JPEG quality, 0-1
+}
+
+export interface PreviewResponse {
+  id: number;
+  blob?: Blob | null; // null when the original already fits within maxSize
+  error?: string;
+}
+
+// Typed by hand; the project's TypeScript lib is DOM, not WebWorker
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<PreviewRequest>) => void) | null;
+  postMessage: (response: PreviewResponse) => void;
+};
+
+const createPreview = async ({ blob, maxSize, quality }: PreviewRequest): Promise<Blob | null> => {
+  // Same EXIF rotation as an <img>, so previews line up with the original at export
+  const bitmap = await createImageBitmap(blob, { imageOrientation: "from-image" });
+  try {
+    const longEdge = Math.max(bitmap.width, bitmap.height);
+    if (longEdge <= maxSize) return null;
+    const width = Math.max(1, Math.round((bitmap.width * maxSize) / longEdge));
+    const height = Math.max(1, Math.round((bitmap.height * maxSize) / longEdge));
+
+    // Halving steps first, as in the render pipeline, since one large reduction aliases badly
+    let current: ImageBitmap | OffscreenCanvas = bitmap;
+    while (current.width / 2 >= width && current.height / 2 >= height) {
+      const step: OffscreenCanvas = new OffscreenCanvas(Math.ceil(current.width / 2), Math.ceil(current.height / 2));
+      const stepCtx = step.getContext("2d");
+      if (!stepCtx) break;
+      stepCtx.imageSmoothingQuality = "high";
+      stepCtx.drawImage(current, 0, 0, step.width, step.height);
+      current = step;
+    }
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("OffscreenCanvas 2D context is not available");
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(current, 0, 0, width, height);
+    return await canvas.convertToBlob({ type: "image/jpeg", quality });
+  } finally {
+    bitmap.close();
+  }
+};
+
+scope.onmessage = ({ data }) => {
+  createPreview(data).then(
+    (blob) => scope.postMessage({ id: data.id, blob }),
+    (error) => scope.postMessage({ id: data.id, error: error instanceof Error ? error.message : String(error) })
+  );
+};
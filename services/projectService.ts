@@ -0,0 +1,307 @@
+import { Album, ColorLabel, EditHistory, FilterSettings, Lut3D, PhotoItem, Preset } from "../types";
+import { COLOR_LABELS, MAX_RATING, createAlbum } from "./collectionService";
+import { ExportProgress, UNSAFE_FILENAME_CHARS, uniqueName } from "./exportService";
+import { normalizeExif } from "./exifService";
+import { normalizeGeometry } from "./geometry";
+import { parseCubeFile, sameLutData, serializeCube } from "./lutService";
+import { parsePresetFile, serializePresets } from "./presetService";
+import { SETTINGS_SCHEMA_VERSION, migrateHistory, migrateSettings } from "./storageService";
+import { ZipEntry, readZip } from "./zipReader";
+import { createZipWriter } from "./zipWriter";
+
+/**
+ * Project files (`.bananalens`) for handing whole sets of edits to someone else, and XMP
+ * sidecars that carry just the settings of one photo.
+ *
+ * A project file is an uncompressed ZIP archive:
+ *
+ *   project.json          The envelope below
+ *   originals/<id>.<ext>  Each photo's untouched original
+ *   presets.json          The preset library, in the preset file format (see presetService)
+ *   luts/<id>.cube        Every LUT the photos, their histories or the presets use, by ID
+ *
+ *   {
+ *     "format": "bananalens-project",
+ *     "version": 1,
+ *     "settingsVersion": 6,            // FilterSettings schema of every settings object inside
+ *     "exportedAt": "2025-01-31T12:00:00.000Z",
+ *     "albums": [ { "id": "album-1", "name": "Trip", "createdAt": 1738324800000 } ],
+ *     "photos": [
+ *       {
+ *         "id": "1738324800000123", "file": "originals/1738324800000123.jpg",
+ *         "name": "beach", "timestamp": 1738324800000,
+ *         "settings": { ... }, "history": { ... }, "geometry": { ... }, "exif": { ... },
+ *         "aiReasoning": "...", "albumIds": ["album-1"], "rating": 4, "label": "green", "tags": ["summer"]
+ *       }
+ *     ]
+ *   }
+ *
+ * Importing never overwrites anything: photos whose ID is already taken get a new one, albums
+ * merge with existing albums of the same name, and presets already in the library are skipped.
+ * LUTs already in the library are reused, and any other LUT whose ID is taken gets a new one,
+ * with every `lutId` that referred to it rewritten.
+ */
+
+export const PROJECT_FILE_FORMAT = "bananalens-project";
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = ".bananalens";
+
+const PROJECT_ENTRY = "project.json";
+const PRESETS_ENTRY = "presets.json";
+const LUT_ENTRY = /^luts\/(.+)\.cube$/;
+
+type ProjectPhoto = { file: string } & Omit<PhotoItem, "originalUrl" | "previewUrl">;
+
+interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  settingsVersion: number;
+  exportedAt: string;
+  albums: Album[];
+  photos: ProjectPhoto[];
+}
+
+export interface ImportedProject {
+  photos: PhotoItem[];
+  albums: Album[];   // Only albums that didn't exist yet
+  presets: Preset[]; // Only presets that aren't in the library yet
+  luts: Lut3D[];     // Only LUTs that aren't in the library yet
+}
+
+const ORIGINAL_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/avif": "avif"
+};
+
+// ZIP entries carry no content type, so it is recovered from the file extension
+const originalType = (file: string) => {
+  const extension = file.slice(file.lastIndexOf(".") + 1).toLowerCase();
+  return Object.keys(ORIGINAL_EXTENSIONS).find((type) => ORIGINAL_EXTENSIONS[type] === extension) ?? "";
+};
+
+const createPhotoId = () => Date.now().toString() + Math.random().toString().slice(2, 8);
+
+/**
+ * Bundles photos with their originals, the albums they belong to, the preset library and the
+ * LUTs any of them use.
+ * Reports progress per photo, since reading the originals is the slow part.
+ */
+export const exportProject = async (
+  items: PhotoItem[],
+  albums: Album[],
+  presets: Preset[],
+  luts: Lut3D[],
+  onProgress?: (progress: ExportProgress) => void
+): Promise<Blob> => {
+  const zip = createZipWriter();
+  const usedNames = new Set<string>();
+  const photos: ProjectPhoto[] = [];
+
+  onProgress?.({ done: 0, total: items.length });
+  for (let i = 0; i < items.length; i++) {
+    const { originalUrl, previewUrl, ...item } = items[i];
+    const original = await (await fetch(originalUrl)).blob();
+    const file = uniqueName(`originals/${item.id}.${ORIGINAL_EXTENSIONS[original.type] ?? "img"}`, usedNames);
+    await zip.add(file, original);
+    photos.push({ file, ...item });
+    onProgress?.({ done: i + 1, total: items.length });
+  }
+
+  const usedAlbumIds = new Set(items.flatMap((item) => item.albumIds ?? []));
+  const project: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    settingsVersion: SETTINGS_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    albums: albums.filter((album) => usedAlbumIds.has(album.id)),
+    photos
+  };
+  await zip.add(PROJECT_ENTRY, JSON.stringify(project, null, 2));
+  if (presets.length > 0) await zip.add(PRESETS_ENTRY, serializePresets(presets));
+
+  // LUT IDs only mean something in this browser's library, so the tables travel with the photos
+  const allSettings = [
+    ...items.flatMap((item) => [item.settings, ...(item.history?.entries.map((entry) => entry.settings) ?? [])]),
+    ...presets.map((preset) => preset.settings)
+  ];
+  const usedLutIds = new Set(allSettings.flatMap((settings) => (settings.lutId ? [settings.lutId] : [])));
+  for (const lut of luts) {
+    if (usedLutIds.has(lut.id)) await zip.add(`luts/${lut.id}.cube`, serializeCube(lut));
+  }
+  return zip.finish();
+};
+
+const optionalString = (value: unknown) => (typeof value === "string" && value ? value : undefined);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const validHistory = (value: unknown): value is EditHistory =>
+  isRecord(value) &&
+  Array.isArray(value.entries) &&
+  value.entries.length > 0 &&
+  value.entries.every((entry: unknown) => isRecord(entry) && isRecord(entry.settings)) &&
+  typeof value.index === "number" &&
+  Number.isInteger(value.index) &&
+  value.index >= 0 &&
+  value.index < value.entries.length;
+
+const sameSettings = (a: Preset, b: Preset) => a.name === b.name && JSON.stringify(a.settings) === JSON.stringify(b.settings);
+
+/**
+ * Reads a project file and returns what should be added to the collection.
+ * Throws an Error with a user-facing message when the file isn't a valid project.
+ */
+export const parseProjectFile = async (
+  archive: Blob,
+  existing: { photos: PhotoItem[]; albums: Album[]; presets: Preset[]; luts: Lut3D[] }
+): Promise<ImportedProject> => {
+  let entries: ZipEntry[];
+  try {
+    entries = await readZip(archive);
+  } catch {
+    throw new Error("This isn't a BananaLens project file.");
+  }
+  const entryByName = new Map(entries.map((entry) => [entry.name, entry]));
+  const projectEntry = entryByName.get(PROJECT_ENTRY);
+  if (!projectEntry) throw new Error("This isn't a BananaLens project file.");
+
+  let file: unknown;
+  try {
+    file = JSON.parse(await (await projectEntry.blob()).text());
+  } catch {
+    throw new Error("The project file is damaged.");
+  }
+  if (!isRecord(file) || file.format !== PROJECT_FILE_FORMAT || !Array.isArray(file.photos)) {
+    throw new Error("This isn't a BananaLens project file.");
+  }
+  if (typeof file.version !== "number" || file.version > PROJECT_FILE_VERSION) {
+    throw new Error("This project was made by a newer version of BananaLens.");
+  }
+  const settingsVersion = typeof file.settingsVersion === "number" ? file.settingsVersion : 0;
+
+  // Albums are matched by name so importing the same project twice doesn't duplicate them
+  const albumIdMap = new Map<string, string>();
+  const albums: Album[] = [];
+  for (const raw of Array.isArray(file.albums) ? file.albums : []) {
+    const name = isRecord(raw) ? optionalString(raw.name) : undefined;
+    if (!isRecord(raw) || !name || typeof raw.id !== "string") continue;
+    const match = [...existing.albums, ...albums].find((album) => album.name.toLowerCase() === name.toLowerCase());
+    const album = match ?? { ...createAlbum(name), createdAt: typeof raw.createdAt === "number" ? raw.createdAt : Date.now() };
+    if (!match) albums.push(album);
+    albumIdMap.set(raw.id, album.id);
+  }
+
+  // LUTs keep their IDs unless a different LUT already has one; a LUT already in the library is
+  // used as it is rather than added twice
+  const lutIdMap = new Map<string, string>();
+  const luts: Lut3D[] = [];
+  for (const entry of entries) {
+    const lutId = LUT_ENTRY.exec(entry.name)?.[1];
+    if (!lutId) continue;
+    let lut: Lut3D;
+    try {
+      lut = parseCubeFile(await (await entry.blob()).text(), "Imported LUT");
+    } catch {
+      continue; // Photos using it show the LUT as missing, as on a machine without it
+    }
+    const known = existing.luts.find((other) => sameLutData(other, lut));
+    const id = known?.id ?? (existing.luts.some((other) => other.id === lutId) ? lut.id : lutId);
+    if (!known) luts.push({ ...lut, id });
+    lutIdMap.set(lutId, id);
+  }
+  const remapLut = (settings: FilterSettings): FilterSettings => {
+    const lutId = settings.lutId ? lutIdMap.get(settings.lutId) : undefined;
+    return lutId ? { ...settings, lutId } : settings;
+  };
+  const remapHistory = (history: EditHistory | undefined): EditHistory | undefined =>
+    history && { ...history, entries: history.entries.map((entry) => ({ ...entry, settings: remapLut(entry.settings) })) };
+
+  const takenIds = new Set(existing.photos.map((item) => item.id));
+  const labels = new Set<unknown>(COLOR_LABELS.map((label) => label.key));
+  const photos: PhotoItem[] = [];
+  for (const raw of file.photos) {
+    if (!isRecord(raw) || typeof raw.file !== "string" || !isRecord(raw.settings)) continue;
+    const entry = entryByName.get(raw.file);
+    if (!entry) continue;
+    const id = typeof raw.id === "string" && !takenIds.has(raw.id) ? raw.id : createPhotoId();
+    takenIds.add(id);
+    const albumIds = (Array.isArray(raw.albumIds) ? raw.albumIds : []).flatMap((albumId: unknown) => {
+      const mapped = typeof albumId === "string" ? albumIdMap.get(albumId) : undefined;
+      return mapped ? [mapped] : [];
+    });
+    const tags = Array.isArray(raw.tags) ? raw.tags.filter((tag: unknown): tag is string => typeof tag === "string" && tag !== "") : [];
+    const rating = typeof raw.rating === "number" && Number.isInteger(raw.rating) && raw.rating >= 1 && raw.rating <= MAX_RATING ? raw.rating : undefined;
+    photos.push({
+      id,
+      originalUrl: URL.createObjectURL(new Blob([await entry.blob()], { type: originalType(raw.file) })),
+      name: optionalString(raw.name) ?? "Imported Photo",
+      timestamp: typeof raw.timestamp === "number" ? raw.timestamp : Date.now(),
+      settings: remapLut(migrateSettings(raw.settings, settingsVersion)),
+      history: validHistory(raw.history) ? remapHistory(migrateHistory(raw.history, settingsVersion)) : undefined,
+      aiReasoning: optionalString(raw.aiReasoning),
+      exif: normalizeExif(raw.exif),
+      geometry: isRecord(raw.geometry) ? normalizeGeometry(raw.geometry) : undefined,
+      albumIds: albumIds.length > 0 ? albumIds : undefined,
+      rating,
+      label: labels.has(raw.label) ? (raw.label as ColorLabel) : undefined,
+      tags: tags.length > 0 ? Array.from(new Set(tags.map((tag: string) => tag.toLowerCase()))) : undefined
+    });
+  }
+
+  const presetsEntry = entryByName.get(PRESETS_ENTRY);
+  const presets = presetsEntry
+    ? parsePresetFile(await (await presetsEntry.blob()).text())
+        .map((preset) => ({ ...preset, settings: remapLut(preset.settings) }))
+        .filter((preset) => !existing.presets.some((known) => sameSettings(known, preset)))
+    : [];
+
+  return { photos, albums, presets, luts };
+};
+
+// --- XMP sidecars ---
+
+export const XMP_NAMESPACE = "https://bananalens.app/ns/1.0/";
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/**
+ * A standalone XMP packet holding one photo's settings and geometry as JSON, for keeping edits
+ * next to the original in other tools' folders. The image itself is not included.
+ */
+export const serializeXmpSidecar = (item: PhotoItem): string => {
+  const attributes = [
+    `bananalens:settingsVersion="${SETTINGS_SCHEMA_VERSION}"`,
+    `bananalens:settings="${escapeXml(JSON.stringify(item.settings))}"`,
+    ...(item.geometry ? [`bananalens:geometry="${escapeXml(JSON.stringify(item.geometry))}"`] : [])
+  ];
+  return [
+    `<?xpacket begin="\ufeff" id="W5M0MpCehiHzreSzNTczkc9d"?>`,
+    `<x:xmpmeta xmlns:x="adobe:ns:meta/">`,
+    ` <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">`,
+    `  <rdf:Description rdf:about=""`,
+    `    xmlns:bananalens="${XMP_NAMESPACE}"`,
+    ...attributes.map((attribute) => `    ${attribute}`),
+    `  />`,
+    ` </rdf:RDF>`,
+    `</x:xmpmeta>`,
+    `<?xpacket end="w"?>`,
+    ""
+  ].join("\n");
+};
+
+// One sidecar per photo, named after the photo; several are bundled into a ZIP.
+export const exportXmpSidecars = async (items: PhotoItem[]): Promise<{ blob: Blob; filename: string }> => {
+  const safeName = (item: PhotoItem) => item.name.replace(UNSAFE_FILENAME_CHARS, "-").trim() || "photo";
+  if (items.length === 1) {
+    return { blob: new Blob([serializeXmpSidecar(items[0])], { type: "application/rdf+xml" }), filename: `${safeName(items[0])}.xmp` };
+  }
+  const zip = createZipWriter();
+  const usedNames = new Set<string>();
+  for (const item of items) await zip.add(uniqueName(`${safeName(item)}.xmp`, usedNames), serializeXmpSidecar(item));
+  return { blob: zip.finish(), filename: `bananalens-sidecars-${new Date().toISOString().slice(0, 10)}.zip` };
+};
@@ -0,0 +1,521 @@
+import { FilterSettings, Geometry, LocalAdjustment, Lut3D, ToneCurves } from "../types";
+import { buildCurveTable, isIdentityCurve } from "./toneCurve";
+import { applyLutToPixels, createLutId, getLut } from "./lutService";
+import { Affine, applyGeometryTransform, croppedSize, defaultGeometry } from "./geometry";
+import { defaultSettings } from "./filterSettings";
+import { isNeutralAdjustment, maskTransform, maskWeights } from "./localAdjustments";
+
+/**
+ * Pixel-based renderer shared by the editor preview, the collection grids and export.
+ *
+ * Everything is computed on ImageData rather than through CSS or `ctx.filter`, so the
+ * same settings produce the same pixels everywhere, including browsers without canvas filters.
+ * Color math follows the matrices of the CSS Filter Effects spec so existing looks keep their appearance.
+ */
+
+// Blur is expressed in pixels at this long edge so it looks the same at any render size.
+// The radii of the other spatial effects below are in the same units.
+const BLUR_REFERENCE_SIZE = 1000;
+
+// Neighborhood that clarity adds contrast against, and the detail radius sharpening works at
+const CLARITY_RADIUS = 20;
+const SHARPEN_RADIUS = 1;
+
+// Grain cells span this range of reference pixels as grain size goes from 0 to 100
+const GRAIN_CELL_MIN = 0.6;
+const GRAIN_CELL_MAX = 3;
+
+// Grid size used when baking settings into a LUT; 33 is the common interchange size.
+const BAKE_SIZE = 33;
+
+export type RenderSource = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+export interface RenderOptions {
+  maxSize?: number;                 // Caps the long edge of the output; omitted renders at full resolution
+  target?: HTMLCanvasElement;       // Canvas to draw into instead of creating a new one
+  onPixels?: (imageData: ImageData) => void; // Receives the processed pixels, e.g. for a histogram
+  geometry?: Geometry;              // Crop, rotation and flips, applied before color
+}
+
+// A 3x3 color matrix in row-major order.
+type ColorMatrix = number[];
+
+const IDENTITY: ColorMatrix = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+const multiply = (a: ColorMatrix, b: ColorMatrix): ColorMatrix => {
+  const out: ColorMatrix = new Array(9);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      out[row * 3 + col] =
+        a[row * 3] * b[col] + a[row * 3 + 1] * b[3 + col] + a[row * 3 + 2] * b[6 + col];
+    }
+  }
+  return out;
+};
+
+const saturateMatrix = (s: number): ColorMatrix => [
+  0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+  0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+  0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s
+];
+
+const sepiaMatrix = (amount: number): ColorMatrix => {
+  const a = 1 - amount;
+  return [
+    0.393 + 0.607 * a, 0.769 - 0.769 * a, 0.189 - 0.189 * a,
+    0.349 - 0.349 * a, 0.686 + 0.314 * a, 0.168 - 0.168 * a,
+    0.272 - 0.272 * a, 0.534 - 0.534 * a, 0.131 + 0.869 * a
+  ];
+};
+
+const grayscaleMatrix = (amount: number): ColorMatrix => {
+  const a = 1 - amount;
+  return [
+    0.2126 + 0.7874 * a, 0.7152 - 0.7152 * a, 0.0722 - 0.0722 * a,
+    0.2126 - 0.2126 * a, 0.7152 + 0.2848 * a, 0.0722 - 0.0722 * a,
+    0.2126 - 0.2126 * a, 0.7152 - 0.7152 * a, 0.0722 + 0.9278 * a
+  ];
+};
+
+const hueRotateMatrix = (degrees: number): ColorMatrix => {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072
+  ];
+};
+
+// Temperature scales red against blue, tint scales green against red and blue.
+const whiteBalanceMatrix = (warmth: number, tint: number): ColorMatrix => {
+  const w = warmth / 100;
+  const t = tint / 100;
+  return [
+    (1 + 0.2 * w) * (1 + 0.1 * t), 0, 0,
+    0, 1 - 0.2 * t, 0,
+    0, 0, (1 - 0.2 * w) * (1 + 0.1 * t)
+  ];
+};
+
+const clamp01 = (v: number) => (v < 0 ? 0 : v > 1 ? 1 : v);
+
+const toIndex = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : (v + 0.5) | 0);
+
+// Input levels, then brightness and contrast, applied per channel like the CSS component transfer functions.
+const buildToneTable = (s: FilterSettings): Float32Array => {
+  const black = Math.min(s.blackPoint, 254);
+  const white = Math.max(s.whitePoint, black + 1);
+  const brightness = s.brightness / 100;
+  const contrast = s.contrast / 100;
+  const table = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    const level = clamp01((i - black) / (white - black));
+    const b = clamp01(level * brightness);
+    table[i] = clamp01((b - 0.5) * contrast + 0.5) * 255;
+  }
+  return table;
+};
+
+// Offset added to every channel by luma: shadows weigh dark tones, highlights weigh bright ones.
+const buildShadowHighlightTable = (s: FilterSettings): Float32Array | null => {
+  if (s.shadows === 0 && s.highlights === 0) return null;
+  const table = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    const l = i / 255;
+    const shadowWeight = (1 - l) * (1 - l) * (1 - l);
+    const highlightWeight = l * l * l;
+    table[i] = 255 * 0.35 * ((s.shadows / 100) * shadowWeight + (s.highlights / 100) * highlightWeight);
+  }
+  return table;
+};
+
+// The RGB curve followed by each channel curve, folded into one table per channel.
+const buildCurveTables = (curves: ToneCurves): [Float32Array, Float32Array, Float32Array] | null => {
+  if ([curves.rgb, curves.red, curves.green, curves.blue].every(isIdentityCurve)) return null;
+  const rgb = buildCurveTable(curves.rgb);
+  return [curves.red, curves.green, curves.blue].map((channel) => {
+    const table = buildCurveTable(channel);
+    return rgb.map((v) => table[toIndex(v)]);
+  }) as [Float32Array, Float32Array, Float32Array];
+};
+
+// White balance first, then saturate, sepia, grayscale and hue-rotate in the order the CSS string applied them.
+const buildColorMatrix = (s: FilterSettings): ColorMatrix => {
+  let m = IDENTITY;
+  if (s.warmth !== 0 || s.tint !== 0) m = multiply(whiteBalanceMatrix(s.warmth, s.tint), m);
+  if (s.saturation !== 100) m = multiply(saturateMatrix(s.saturation / 100), m);
+  if (s.sepia > 0) m = multiply(sepiaMatrix(clamp01(s.sepia / 100)), m);
+  if (s.grayscale > 0) m = multiply(grayscaleMatrix(clamp01(s.grayscale / 100)), m);
+  if (s.hueRotate % 360 !== 0) m = multiply(hueRotateMatrix(s.hueRotate), m);
+  return m;
+};
+
+const applyColor = (data: Uint8ClampedArray, s: FilterSettings) => {
+  const tone = buildToneTable(s);
+  const shadeTable = buildShadowHighlightTable(s);
+  const [m0, m1, m2, m3, m4, m5, m6, m7, m8] = buildColorMatrix(s);
+  const curveTables = buildCurveTables(s.curves);
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = tone[data[i]];
+    let g = tone[data[i + 1]];
+    let b = tone[data[i + 2]];
+
+    if (shadeTable) {
+      const offset = shadeTable[toIndex(0.2126 * r + 0.7152 * g + 0.0722 * b)];
+      r += offset;
+      g += offset;
+      b += offset;
+    }
+
+    const nr = m0 * r + m1 * g + m2 * b;
+    const ng = m3 * r + m4 * g + m5 * b;
+    const nb = m6 * r + m7 * g + m8 * b;
+
+    // Uint8ClampedArray rounds and clamps on assignment
+    if (curveTables) {
+      data[i] = curveTables[0][toIndex(nr)];
+      data[i + 1] = curveTables[1][toIndex(ng)];
+      data[i + 2] = curveTables[2][toIndex(nb)];
+    } else {
+      data[i] = nr;
+      data[i + 1] = ng;
+      data[i + 2] = nb;
+    }
+  }
+};
+
+// Each adjustment's settings are applied to a copy of the pixels, which is then blended in by the mask's weights.
+const applyLocalAdjustments = (imageData: ImageData, adjustments: LocalAdjustment[], masks?: Affine) => {
+  const { width, height, data } = imageData;
+  for (const adjustment of adjustments) {
+    if (isNeutralAdjustment(adjustment)) continue;
+    const weights = maskWeights(adjustment, width, height, masks);
+    const adjusted = data.slice();
+    applyColor(adjusted, { ...defaultSettings, ...adjustment.settings });
+    for (let p = 0; p < weights.length; p++) {
+      const weight = weights[p];
+      if (weight === 0) continue;
+      const i = p * 4;
+      data[i] += (adjusted[i] - data[i]) * weight;
+      data[i + 1] += (adjusted[i + 1] - data[i + 1]) * weight;
+      data[i + 2] += (adjusted[i + 2] - data[i + 2]) * weight;
+    }
+  }
+};
+
+// Box sizes whose three successive passes approximate a gaussian with the given sigma.
+const boxesForGauss = (sigma: number, passes: number): number[] => {
+  const ideal = Math.sqrt((12 * sigma * sigma) / passes + 1);
+  let lower = Math.floor(ideal);
+  if (lower % 2 === 0) lower--;
+  const upper = lower + 2;
+  const m = Math.round((12 * sigma * sigma - passes * lower * lower - 4 * passes * lower - 3 * passes) / (-4 * lower - 4));
+  return Array.from({ length: passes }, (_, i) => (i < m ? lower : upper));
+};
+
+// One horizontal or vertical box blur pass over RGBA data with clamped edges.
+const boxBlurPass = (
+  src: Uint8ClampedArray,
+  dst: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number,
+  horizontal: boolean
+) => {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const step = horizontal ? 4 : width * 4;
+  const span = radius * 2 + 1;
+
+  for (let line = 0; line < lines; line++) {
+    const start = horizontal ? line * width * 4 : line * 4;
+    for (let c = 0; c < 4; c++) {
+      const base = start + c;
+      const first = src[base];
+      const last = src[base + (length - 1) * step];
+      let sum = first * (radius + 1);
+      for (let k = 1; k <= radius; k++) {
+        sum += src[base + Math.min(k, length - 1) * step];
+      }
+      for (let k = 0; k < length; k++) {
+        dst[base + k * step] = sum / span;
+        const addIndex = k + radius + 1;
+        const removeIndex = k - radius;
+        sum += addIndex < length ? src[base + addIndex * step] : last;
+        sum -= removeIndex >= 0 ? src[base + removeIndex * step] : first;
+      }
+    }
+  }
+};
+
+const applyBlur = (data: Uint8ClampedArray, width: number, height: number, sigma: number) => {
+  if (sigma < 0.5) return;
+  const buffer = new Uint8ClampedArray(data.length);
+  for (const size of boxesForGauss(sigma, 3)) {
+    const radius = (size - 1) / 2;
+    boxBlurPass(data, buffer, width, height, radius, true);
+    boxBlurPass(buffer, data, width, height, radius, false);
+  }
+};
+
+const luma = (data: Uint8ClampedArray, i: number) => 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+
+// Clarity pushes each pixel's luminance away from a wide blur of its surroundings, mostly in the midtones
+// so skies and shadows don't band. Negative amounts pull toward the blur, which softens.
+const applyClarity = (imageData: ImageData, amount: number, scale: number) => {
+  if (amount === 0) return;
+  const { width, height, data } = imageData;
+  const blurred = data.slice();
+  applyBlur(blurred, width, height, CLARITY_RADIUS * scale);
+  const k = amount / 100;
+  for (let i = 0; i < data.length; i += 4) {
+    const l = luma(data, i);
+    const midtones = 1 - Math.abs(l / 127.5 - 1);
+    const offset = (l - luma(blurred, i)) * k * midtones;
+    data[i] += offset;
+    data[i + 1] += offset;
+    data[i + 2] += offset;
+  }
+};
+
+// Unsharp mask on luminance only, so edges gain contrast without colored halos
+const applySharpen = (imageData: ImageData, amount: number, scale: number) => {
+  if (amount <= 0) return;
+  const { width, height, data } = imageData;
+  const blurred = data.slice();
+  // Below a sigma of 1 the box passes have no width and the mask would be empty
+  applyBlur(blurred, width, height, Math.max(1, SHARPEN_RADIUS * scale));
+  const k = (amount / 100) * 1.5;
+  for (let i = 0; i < data.length; i += 4) {
+    const offset = (luma(data, i) - luma(blurred, i)) * k;
+    data[i] += offset;
+    data[i + 1] += offset;
+    data[i + 2] += offset;
+  }
+};
+
+/**
+ * Darkens or lightens toward the edges. Distance is measured on a superellipse scaled so the
+ * frame's corners are 1: roundness 0 follows the frame's shape, 100 makes a circle and negative
+ * values square it off toward the frame's edges.
+ */
+const applyVignette = (imageData: ImageData, s: FilterSettings) => {
+  if (s.vignette === 0) return;
+  const { width, height, data } = imageData;
+  const amount = Math.max(-1, Math.min(1, s.vignette / 100));
+  const roundness = Math.max(-1, Math.min(1, s.vignetteRoundness / 100));
+  const start = clamp01(s.vignetteMidpoint / 100) * 0.9;
+  const circle = Math.min(width, height) / 2;
+  const rx = (width / 2) * (1 - Math.max(0, roundness)) + circle * Math.max(0, roundness);
+  const ry = (height / 2) * (1 - Math.max(0, roundness)) + circle * Math.max(0, roundness);
+  const power = 2 + Math.max(0, -roundness) * 6;
+
+  // Per-column and per-row terms of the superellipse, so each pixel needs only one root
+  const columns = new Float32Array(width);
+  const rows = new Float32Array(height);
+  for (let x = 0; x < width; x++) columns[x] = Math.pow(Math.abs((x + 0.5 - width / 2) / rx), power);
+  for (let y = 0; y < height; y++) rows[y] = Math.pow(Math.abs((y + 0.5 - height / 2) / ry), power);
+  const corner = Math.pow(Math.pow(width / 2 / rx, power) + Math.pow(height / 2 / ry, power), 1 / power);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const distance = Math.pow(columns[x] + rows[y], 1 / power) / corner;
+      if (distance <= start) continue;
+      const t = clamp01((distance - start) / (1 - start));
+      const weight = amount * t * t * (3 - 2 * t);
+      const i = (y * width + x) * 4;
+      for (let c = i; c < i + 3; c++) {
+        data[c] = weight < 0 ? data[c] * (1 + weight) : data[c] + (255 - data[c]) * weight;
+      }
+    }
+  }
+};
+
+// A fixed pseudo-random value in [0, 1) for each grain cell, so grain doesn't crawl between renders
+const cellNoise = (x: number, y: number) => {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+/**
+ * Monochrome grain from smoothly interpolated cell noise. Cells are laid out in frame-relative
+ * units, so the preview and a full-resolution export show the same grain pattern.
+ */
+const applyGrain = (imageData: ImageData, s: FilterSettings, scale: number) => {
+  if (s.grain <= 0) return;
+  const { width, height, data } = imageData;
+  const cell = (GRAIN_CELL_MIN + (GRAIN_CELL_MAX - GRAIN_CELL_MIN) * clamp01(s.grainSize / 100)) * scale;
+  const strength = (s.grain / 100) * 48;
+  for (let y = 0; y < height; y++) {
+    const gy = (y + 0.5) / cell;
+    const y0 = Math.floor(gy);
+    const fy = gy - y0;
+    const sy = fy * fy * (3 - 2 * fy);
+    for (let x = 0; x < width; x++) {
+      const gx = (x + 0.5) / cell;
+      const x0 = Math.floor(gx);
+      const fx = gx - x0;
+      const sx = fx * fx * (3 - 2 * fx);
+      const top = cellNoise(x0, y0) + (cellNoise(x0 + 1, y0) - cellNoise(x0, y0)) * sx;
+      const bottom = cellNoise(x0, y0 + 1) + (cellNoise(x0 + 1, y0 + 1) - cellNoise(x0, y0 + 1)) * sx;
+      const offset = (top + (bottom - top) * sy - 0.5) * 2 * strength;
+      const i = (y * width + x) * 4;
+      data[i] += offset;
+      data[i + 1] += offset;
+      data[i + 2] += offset;
+    }
+  }
+};
+
+const applyLut = (data: Uint8ClampedArray, s: FilterSettings) => {
+  const lut = getLut(s.lutId);
+  if (lut && s.lutIntensity > 0) applyLutToPixels(data, lut, Math.min(1, s.lutIntensity / 100));
+};
+
+// Only the per-pixel stages, in pipeline order; used where spatial effects don't apply.
+export const applyColorSettings = (imageData: ImageData, settings: FilterSettings) => {
+  applyColor(imageData.data, settings);
+  applyLut(imageData.data, settings);
+};
+
+/**
+ * Applies FilterSettings to pixels in place.
+ * Size-dependent effects are scaled by the long edge of the pixels being processed.
+ * Local adjustments refine the globally adjusted image, then detail and blur work on the result.
+ * `masks` places the local adjustments' masks on these pixels when they show a transformed source.
+ * The LUT grades the developed image; vignette and grain are laid over the graded result, as on film.
+ */
+export const applySettingsToPixels = (imageData: ImageData, settings: FilterSettings, masks?: Affine) => {
+  applyColor(imageData.data, settings);
+  applyLocalAdjustments(imageData, settings.localAdjustments, masks);
+
+  const scale = Math.max(imageData.width, imageData.height) / BLUR_REFERENCE_SIZE;
+  applyClarity(imageData, settings.clarity, scale);
+  applySharpen(imageData, settings.sharpen, scale);
+  applyBlur(imageData.data, imageData.width, imageData.height, settings.blur * scale);
+
+  applyLut(imageData.data, settings);
+  applyVignette(imageData, settings);
+  applyGrain(imageData, settings, scale);
+};
+
+/**
+ * Bakes the color part of the settings into a LUT by running an identity lattice through the color stages.
+ * Spatial effects such as blur, clarity, vignette, grain and local adjustments can't be represented in a LUT and are left out.
+ */
+export const bakeSettingsToLut = (settings: FilterSettings, name: string): Lut3D => {
+  const size = BAKE_SIZE;
+  const lattice = new ImageData(size * size, size);
+  const pixels = lattice.data;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const i = (r + g * size + b * size * size) * 4;
+        pixels[i] = (r / (size - 1)) * 255;
+        pixels[i + 1] = (g / (size - 1)) * 255;
+        pixels[i + 2] = (b / (size - 1)) * 255;
+        pixels[i + 3] = 255;
+      }
+    }
+  }
+
+  applyColorSettings(lattice, settings);
+
+  const data = new Float32Array(size * size * size * 3);
+  for (let n = 0; n < size * size * size; n++) {
+    data[n * 3] = pixels[n * 4] / 255;
+    data[n * 3 + 1] = pixels[n * 4 + 1] / 255;
+    data[n * 3 + 2] = pixels[n * 4 + 2] / 255;
+  }
+  return { id: createLutId(), name, size, domainMin: [0, 0, 0], domainMax: [1, 1, 1], data };
+};
+
+
+const getSourceSize = (source: RenderSource) =>
+  source instanceof HTMLImageElement
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height };
+
+export const fitWithin = (width: number, height: number, maxSize?: number) => {
+  if (!maxSize || Math.max(width, height) <= maxSize) return { width, height };
+  const scale = maxSize / Math.max(width, height);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+};
+
+/**
+ * Draws the source through the geometry transform at `scale` output pixels per source pixel.
+ * Large reductions are done in halving steps first, since a single drawImage only samples a few
+ * source pixels per output pixel in most browsers and aliases badly.
+ */
+const drawDownsampled = (
+  ctx: CanvasRenderingContext2D,
+  source: RenderSource,
+  sourceSize: { width: number; height: number },
+  geometry: Geometry,
+  scale: number
+) => {
+  let current: RenderSource = source;
+  let { width: currentWidth, height: currentHeight } = sourceSize;
+
+  while (currentWidth / 2 >= sourceSize.width * scale && currentHeight / 2 >= sourceSize.height * scale) {
+    const step = document.createElement("canvas");
+    step.width = Math.ceil(currentWidth / 2);
+    step.height = Math.ceil(currentHeight / 2);
+    const stepCtx = step.getContext("2d");
+    if (!stepCtx) break;
+    stepCtx.imageSmoothingEnabled = true;
+    stepCtx.imageSmoothingQuality = "high";
+    stepCtx.drawImage(current, 0, 0, step.width, step.height);
+    current = step;
+    currentWidth = step.width;
+    currentHeight = step.height;
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  ctx.save();
+  applyGeometryTransform(ctx, sourceSize.width, sourceSize.height, geometry, scale);
+  ctx.drawImage(current, -sourceSize.width / 2, -sourceSize.height / 2, sourceSize.width, sourceSize.height);
+  ctx.restore();
+};
+
+export const renderToCanvas = (
+  source: RenderSource,
+  settings: FilterSettings,
+  options: RenderOptions = {}
+): HTMLCanvasElement => {
+  const sourceSize = getSourceSize(source);
+  const geometry = options.geometry ?? defaultGeometry;
+  const cropped = croppedSize(sourceSize.width, sourceSize.height, geometry);
+  const { width, height } = fitWithin(cropped.width, cropped.height, options.maxSize);
+
+  const canvas = options.target ?? document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+
+  const scale = width / cropped.width;
+  drawDownsampled(ctx, source, sourceSize, geometry, scale);
+
+  const imageData = ctx.getImageData(0, 0, width, height);
+  applySettingsToPixels(imageData, settings, maskTransform(sourceSize.width, sourceSize.height, geometry, scale));
+  ctx.putImageData(imageData, 0, 0);
+  options.onPixels?.(imageData);
+  return canvas;
+};
+
+export const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = url;
+  });
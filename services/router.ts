@@ -0,0 +1,75 @@
+import { ViewMode } from "../types";
+
+/**
+ * Hash-based routing, so views and photos have URLs that survive reloads and work with the
+ * browser's Back and Forward buttons:
+ *
+ *   #/                      Editor
+ *   #/edit/<photo id>       Editor with a collection photo open
+ *   #/collection            Collection, optionally #/collection?album=<album id>
+ *   #/import  #/export  #/settings
+ *
+ * Hash URLs need no server configuration, which keeps static hosting working.
+ */
+
+export interface Route {
+  view: ViewMode;
+  photoId?: string; // Editor only
+  albumId?: string; // Collection only
+}
+
+const VIEW_PATHS: Record<ViewMode, string> = {
+  [ViewMode.HOME]: "",
+  [ViewMode.COLLECTION]: "collection",
+  [ViewMode.IMPORT]: "import",
+  [ViewMode.EXPORT]: "export",
+  [ViewMode.SETTINGS]: "settings"
+};
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+// Unknown paths fall back to the editor rather than an error page
+export const parseRoute = (hash: string): Route => {
+  const [path, query = ""] = hash.replace(/^#\/?/, "").split("?");
+  const segments = path.split("/").filter(Boolean).map(decodeSegment);
+  if (segments[0] === "edit") return segments[1] ? { view: ViewMode.HOME, photoId: segments[1] } : { view: ViewMode.HOME };
+
+  const view = (Object.keys(VIEW_PATHS) as ViewMode[]).find((mode) => VIEW_PATHS[mode] === (segments[0] ?? "")) ?? ViewMode.HOME;
+  const albumId = new URLSearchParams(query).get("album");
+  return view === ViewMode.COLLECTION && albumId ? { view, albumId } : { view };
+};
+
+export const formatRoute = (route: Route): string => {
+  if (route.view === ViewMode.HOME && route.photoId) return `#/edit/${encodeURIComponent(route.photoId)}`;
+  if (route.view === ViewMode.COLLECTION && route.albumId) return `#/collection?album=${encodeURIComponent(route.albumId)}`;
+  return `#/${VIEW_PATHS[route.view]}`;
+};
+
+export const currentRoute = (): Route => parseRoute(window.location.hash);
+
+/**
+ * Goes to `route`, adding a history entry unless `replace` is set. Either way listeners
+ * registered with `onRouteChange` are told, the same as for Back and Forward.
+ */
+export const navigate = (route: Route, { replace = false }: { replace?: boolean } = {}) => {
+  const hash = formatRoute(route);
+  if (hash === formatRoute(currentRoute())) return;
+  if (replace) {
+    window.history.replaceState(window.history.state, "", hash);
+    window.dispatchEvent(new HashChangeEvent("hashchange"));
+  } else {
+    window.location.hash = hash;
+  }
+};
+
+export const onRouteChange = (listener: (route: Route) => void): (() => void) => {
+  const handleChange = () => listener(currentRoute());
+  window.addEventListener("hashchange", handleChange);
+  return () => window.removeEventListener("hashchange", handleChange);
+};
@@ -0,0 +1,430 @@
+import { Album, ColorLabel, CurvePoint, EditHistory, ExifData, FilterSettings, Geometry, Lut3D, PhotoItem, Preferences, Preset, ToneCurves } from "../types";
+import { LUT_INTENSITY_FIELD, SETTING_FIELDS, clampSetting, defaultSettings, normalizeSettings } from "./filterSettings";
+import { normalizeLocalAdjustments } from "./localAdjustments";
+import { normalizeExportOptions } from "./exportOptions";
+import { normalizeAiPreferences } from "./enhancementService";
+import { normalizeGeometry } from "./geometry";
+import { normalizeShortcutOverrides } from "./commands";
+import { createHistory } from "./editHistory";
+
+/**
+ * IndexedDB persistence for the collection and its albums, the current editor session and user preferences.
+ *
+ * Originals are stored as Blobs in their own store so that photo records stay small
+ * and can be rewritten cheaply whenever settings change.
+ */
+
+const DB_NAME = "bananalens";
+const DB_VERSION = 5;
+
+const PHOTOS_STORE = "photos";
+const ORIGINALS_STORE = "originals";
+const SESSION_STORE = "session";
+const PRESETS_STORE = "presets";
+const LUTS_STORE = "luts";
+const PREFERENCES_STORE = "preferences";
+const ALBUMS_STORE = "albums";
+
+// Bump when the shape of FilterSettings changes and add a step to settingsMigrations.
+export const SETTINGS_SCHEMA_VERSION = 6;
+
+// Each entry upgrades settings saved at version N to version N + 1.
+const settingsMigrations: Record<number, (settings: Record<string, unknown>) => Record<string, unknown>> = {
+  // Warmth was never rendered before version 2, so any stored value is meaningless.
+  1: (settings) => ({ ...settings, warmth: 0 }),
+  4: (settings) => ({ ...settings, localAdjustments: [] }),
+  // Only the amounts switch effects on; their shape settings come from the defaults
+  5: (settings) => ({ ...settings, clarity: 0, sharpen: 0, vignette: 0, grain: 0 })
+};
+
+export type StorageErrorKind = "quota" | "unavailable" | "unknown";
+
+export class StorageError extends Error {
+  kind: StorageErrorKind;
+
+  constructor(message: string, kind: StorageErrorKind) {
+    super(message);
+    this.name = "StorageError";
+    this.kind = kind;
+  }
+}
+
+interface StoredPhoto {
+  id: string;
+  name: string;
+  timestamp: number;
+  settings: FilterSettings;
+  history?: EditHistory;
+  aiReasoning?: string;
+  exif?: ExifData;
+  geometry?: Geometry;
+  albumIds?: string[];
+  rating?: number;
+  label?: ColorLabel;
+  tags?: string[];
+  settingsVersion: number;
+}
+
+interface StoredPreset extends Preset {
+  settingsVersion: number;
+}
+
+interface StoredSessionState {
+  history?: EditHistory;
+  settings?: FilterSettings; // Sessions saved before edit history kept only the current settings
+  geometry?: Geometry;
+  editingId: string | null;
+  settingsVersion: number;
+  promptText: string;
+}
+
+export interface EditorSession {
+  image: string | null;
+  refImage: string | null;
+  history: EditHistory | null;
+  geometry: Geometry | null;
+  editingId: string | null;
+  promptText: string;
+}
+
+export type SessionImageKey = "image" | "refImage";
+
+const toStorageError = (error: unknown): StorageError => {
+  if (error instanceof StorageError) return error;
+  const name = (error as DOMException | null)?.name;
+  if (name === "QuotaExceededError") {
+    return new StorageError("Browser storage is full.", "quota");
+  }
+  const message = error instanceof Error ? error.message : "Unknown storage error";
+  return new StorageError(message, "unknown");
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const CURVE_CHANNELS: (keyof ToneCurves)[] = ["rgb", "red", "green", "blue"];
+
+const isCurve = (value: unknown): value is CurvePoint[] =>
+  Array.isArray(value) && value.every((point) => isRecord(point) && Number.isFinite(point.x) && Number.isFinite(point.y));
+
+// The fields of stored settings that have the right type, clamped to their ranges; normalizeSettings
+// fills in the rest. Presets and project files come from other people, and a huge blur would hang rendering.
+const readSettings = (raw: Record<string, unknown>): Partial<FilterSettings> => {
+  const settings: Partial<FilterSettings> = {};
+  for (const field of [...SETTING_FIELDS, LUT_INTENSITY_FIELD]) {
+    const value = raw[field.key];
+    if (typeof value === "number" && Number.isFinite(value)) settings[field.key] = clampSetting(field, value);
+  }
+  // Levels that cross would invert the image
+  if ((settings.blackPoint ?? defaultSettings.blackPoint) >= (settings.whitePoint ?? defaultSettings.whitePoint)) {
+    settings.blackPoint = defaultSettings.blackPoint;
+    settings.whitePoint = defaultSettings.whitePoint;
+  }
+  const lutId = raw.lutId;
+  if (typeof lutId === "string") settings.lutId = lutId;
+  else if (lutId === null) settings.lutId = null;
+  const curves = raw.curves;
+  if (isRecord(curves)) {
+    settings.curves = { ...defaultSettings.curves };
+    for (const channel of CURVE_CHANNELS) {
+      const curve = curves[channel];
+      if (isCurve(curve)) settings.curves[channel] = curve;
+    }
+  }
+  settings.localAdjustments = normalizeLocalAdjustments(raw.localAdjustments);
+  return settings;
+};
+
+export const migrateSettings = (settings: unknown, fromVersion: number): FilterSettings => {
+  let migrated = isRecord(settings) ? settings : {};
+  for (let version = fromVersion; version < SETTINGS_SCHEMA_VERSION; version++) {
+    const step = settingsMigrations[version];
+    if (step) migrated = step(migrated);
+  }
+  return normalizeSettings(readSettings(migrated));
+};
+
+export const migrateHistory = (history: EditHistory | undefined, fromVersion: number): EditHistory | undefined =>
+  history && {
+    ...history,
+    entries: history.entries.map((entry) => ({ ...entry, settings: migrateSettings(entry.settings, fromVersion) }))
+  };
+
+const upgradeDatabase = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(PHOTOS_STORE, { keyPath: "id" });
+    db.createObjectStore(ORIGINALS_STORE);
+    db.createObjectStore(SESSION_STORE);
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(PRESETS_STORE, { keyPath: "id" });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(LUTS_STORE, { keyPath: "id" });
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(PREFERENCES_STORE);
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(ALBUMS_STORE, { keyPath: "id" });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new StorageError("IndexedDB is not available in this browser.", "unavailable"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgradeDatabase(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(toStorageError(request.error));
+      request.onblocked = () => reject(new StorageError("Storage is blocked by another open tab.", "unavailable"));
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStorageError(request.error));
+  });
+
+// Runs synchronous store operations in a single transaction and resolves once it commits.
+const writeTransaction = async (storeNames: string[], work: (tx: IDBTransaction) => void): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    let tx: IDBTransaction;
+    try {
+      tx = db.transaction(storeNames, "readwrite");
+      work(tx);
+    } catch (error) {
+      reject(toStorageError(error));
+      return;
+    }
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error));
+  });
+};
+
+// Writes are serialized so a slow blob write can't be overtaken by a later delete.
+let writeQueue: Promise<void> = Promise.resolve();
+
+const enqueueWrite = (task: () => Promise<void>): Promise<void> => {
+  const run = writeQueue.then(task);
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+const urlToBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  return response.blob();
+};
+
+const toStoredPhoto = (item: PhotoItem): StoredPhoto => ({
+  id: item.id,
+  name: item.name,
+  timestamp: item.timestamp,
+  settings: item.settings,
+  history: item.history,
+  aiReasoning: item.aiReasoning,
+  exif: item.exif,
+  geometry: item.geometry,
+  albumIds: item.albumIds,
+  rating: item.rating,
+  label: item.label,
+  tags: item.tags,
+  settingsVersion: SETTINGS_SCHEMA_VERSION
+});
+
+export const loadCollection = async (): Promise<PhotoItem[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PHOTOS_STORE, ORIGINALS_STORE], "readonly");
+  const records = await requestToPromise<StoredPhoto[]>(tx.objectStore(PHOTOS_STORE).getAll());
+  const originals = tx.objectStore(ORIGINALS_STORE);
+
+  const items: PhotoItem[] = [];
+  for (const record of records) {
+    const blob = await requestToPromise<Blob | undefined>(originals.get(record.id));
+    if (!blob) continue;
+    const version = record.settingsVersion ?? 0;
+    items.push({
+      id: record.id,
+      name: record.name,
+      timestamp: record.timestamp,
+      originalUrl: URL.createObjectURL(blob),
+      settings: migrateSettings(record.settings, version),
+      history: migrateHistory(record.history, version),
+      aiReasoning: record.aiReasoning,
+      exif: record.exif,
+      geometry: record.geometry && normalizeGeometry(record.geometry),
+      albumIds: record.albumIds,
+      rating: record.rating,
+      label: record.label,
+      tags: record.tags
+    });
+  }
+  return items.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Persists the difference between two snapshots of the collection.
+ * New items get their original stored, changed items (by reference) get their record rewritten,
+ * and items missing from `next` are deleted.
+ */
+export const syncCollection = (prev: PhotoItem[], next: PhotoItem[]): Promise<void> =>
+  enqueueWrite(async () => {
+    const prevById = new Map(prev.map((item) => [item.id, item]));
+    const nextIds = new Set(next.map((item) => item.id));
+
+    const added = next.filter((item) => !prevById.has(item.id));
+    const changed = next.filter((item) => prevById.has(item.id) && prevById.get(item.id) !== item);
+    const removed = prev.filter((item) => !nextIds.has(item.id));
+    if (added.length === 0 && changed.length === 0 && removed.length === 0) return;
+
+    // Blobs must be fetched before the transaction opens, otherwise it auto-commits mid-await.
+    const blobs = await Promise.all(added.map((item) => urlToBlob(item.originalUrl)));
+
+    await writeTransaction([PHOTOS_STORE, ORIGINALS_STORE], (tx) => {
+      const photos = tx.objectStore(PHOTOS_STORE);
+      const originals = tx.objectStore(ORIGINALS_STORE);
+      added.forEach((item, i) => {
+        originals.put(blobs[i], item.id);
+        photos.put(toStoredPhoto(item));
+      });
+      changed.forEach((item) => photos.put(toStoredPhoto(item)));
+      removed.forEach((item) => {
+        photos.delete(item.id);
+        originals.delete(item.id);
+      });
+    });
+  });
+
+export const loadPresets = async (): Promise<Preset[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise<StoredPreset[]>(
+    db.transaction(PRESETS_STORE, "readonly").objectStore(PRESETS_STORE).getAll()
+  );
+  return records
+    .map(({ settingsVersion, ...preset }) => ({ ...preset, settings: migrateSettings(preset.settings, settingsVersion ?? 0) }))
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Presets are small, so the whole library is rewritten on every change.
+export const savePresets = (presets: Preset[]): Promise<void> =>
+  enqueueWrite(() =>
+    writeTransaction([PRESETS_STORE], (tx) => {
+      const store = tx.objectStore(PRESETS_STORE);
+      store.clear();
+      presets.forEach((preset) => {
+        const record: StoredPreset = { ...preset, settingsVersion: SETTINGS_SCHEMA_VERSION };
+        store.put(record);
+      });
+    })
+  );
+
+export const loadAlbums = async (): Promise<Album[]> => {
+  const db = await openDatabase();
+  const albums = await requestToPromise<Album[]>(db.transaction(ALBUMS_STORE, "readonly").objectStore(ALBUMS_STORE).getAll());
+  return albums.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+// Like presets, the album list is small and rewritten whole; membership lives on the photos.
+export const saveAlbums = (albums: Album[]): Promise<void> =>
+  enqueueWrite(() =>
+    writeTransaction([ALBUMS_STORE], (tx) => {
+      const store = tx.objectStore(ALBUMS_STORE);
+      store.clear();
+      albums.forEach((album) => store.put(album));
+    })
+  );
+
+export const loadLuts = async (): Promise<Lut3D[]> => {
+  const db = await openDatabase();
+  const luts = await requestToPromise<Lut3D[]>(db.transaction(LUTS_STORE, "readonly").objectStore(LUTS_STORE).getAll());
+  return luts.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveLut = (lut: Lut3D): Promise<void> =>
+  enqueueWrite(() => writeTransaction([LUTS_STORE], (tx) => { tx.objectStore(LUTS_STORE).put(lut); }));
+
+export const deleteLut = (id: string): Promise<void> =>
+  enqueueWrite(() => writeTransaction([LUTS_STORE], (tx) => { tx.objectStore(LUTS_STORE).delete(id); }));
+
+export const loadPreferences = async (): Promise<Preferences> => {
+  const db = await openDatabase();
+  const stored = await requestToPromise<Partial<Preferences> | undefined>(
+    db.transaction(PREFERENCES_STORE, "readonly").objectStore(PREFERENCES_STORE).get("preferences")
+  );
+  return {
+    exportOptions: normalizeExportOptions(stored?.exportOptions),
+    exportProfiles: (stored?.exportProfiles ?? []).map((profile) => ({ ...profile, options: normalizeExportOptions(profile.options) })),
+    ai: normalizeAiPreferences(stored?.ai),
+    shortcuts: normalizeShortcutOverrides(stored?.shortcuts)
+  };
+};
+
+export const savePreferences = (preferences: Preferences): Promise<void> =>
+  enqueueWrite(() =>
+    writeTransaction([PREFERENCES_STORE], (tx) => {
+      tx.objectStore(PREFERENCES_STORE).put(preferences, "preferences");
+    })
+  );
+
+export const loadSession = async (): Promise<EditorSession | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, "readonly");
+  const store = tx.objectStore(SESSION_STORE);
+  const state = await requestToPromise<StoredSessionState | undefined>(store.get("state"));
+  const image = await requestToPromise<Blob | undefined>(store.get("image"));
+  const refImage = await requestToPromise<Blob | undefined>(store.get("refImage"));
+  if (!state && !image) return null;
+
+  return {
+    image: image ? URL.createObjectURL(image) : null,
+    refImage: refImage ? URL.createObjectURL(refImage) : null,
+    history: state?.history
+      ? migrateHistory(state.history, state.settingsVersion ?? 0) ?? null
+      : state?.settings
+        ? createHistory(migrateSettings(state.settings, state.settingsVersion ?? 0))
+        : null,
+    geometry: state?.geometry ? normalizeGeometry(state.geometry) : null,
+    editingId: state?.editingId ?? null,
+    promptText: state?.promptText ?? ""
+  };
+};
+
+export const saveSessionState = (
+  history: EditHistory,
+  geometry: Geometry,
+  editingId: string | null,
+  promptText: string
+): Promise<void> =>
+  enqueueWrite(() =>
+    writeTransaction([SESSION_STORE], (tx) => {
+      const state: StoredSessionState = { history, geometry, editingId, settingsVersion: SETTINGS_SCHEMA_VERSION, promptText };
+      tx.objectStore(SESSION_STORE).put(state, "state");
+    })
+  );
+
+export const saveSessionImage = (key: SessionImageKey, url: string | null): Promise<void> =>
+  enqueueWrite(async () => {
+    const blob = url ? await urlToBlob(url) : null;
+    await writeTransaction([SESSION_STORE], (tx) => {
+      const store = tx.objectStore(SESSION_STORE);
+      if (blob) {
+        store.put(blob, key);
+      } else {
+        store.delete(key);
+      }
+    });
+  });
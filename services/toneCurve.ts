@@ -0,0 +1,104 @@
+import { CurvePoint, ToneCurves } from "../types";
+
+export type CurveChannel = keyof ToneCurves;
+
+export const identityCurve = (): CurvePoint[] => [
+  { x: 0, y: 0 },
+  { x: 255, y: 255 }
+];
+
+export const identityCurves = (): ToneCurves => ({
+  rgb: identityCurve(),
+  red: identityCurve(),
+  green: identityCurve(),
+  blue: identityCurve()
+});
+
+export const isIdentityCurve = (points: CurvePoint[]): boolean =>
+  points.every((p) => p.x === p.y) && points.some((p) => p.x === 0) && points.some((p) => p.x === 255);
+
+const clampLevel = (v: number) => Math.max(0, Math.min(255, v));
+
+// Sorts by input level and drops points sharing an input level, keeping the last one.
+export const sortCurvePoints = (points: CurvePoint[]): CurvePoint[] => {
+  const byX = new Map<number, CurvePoint>();
+  for (const p of points) {
+    const x = Math.round(clampLevel(p.x));
+    byX.set(x, { x, y: clampLevel(p.y) });
+  }
+  return Array.from(byX.values()).sort((a, b) => a.x - b.x);
+};
+
+/**
+ * Builds a 256-entry lookup table through the control points using monotone cubic
+ * (Fritsch-Carlson) interpolation, so the curve never overshoots between points.
+ * Inputs outside the first and last points are held flat.
+ */
+export const buildCurveTable = (points: CurvePoint[]): Float32Array => {
+  const table = new Float32Array(256);
+  const pts = sortCurvePoints(points);
+
+  if (pts.length === 0) {
+    for (let i = 0; i < 256; i++) table[i] = i;
+    return table;
+  }
+  if (pts.length === 1) {
+    table.fill(pts[0].y);
+    return table;
+  }
+
+  const n = pts.length;
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    slopes.push((pts[i + 1].y - pts[i].y) / (pts[i + 1].x - pts[i].x));
+  }
+
+  const tangents: number[] = new Array(n);
+  tangents[0] = slopes[0];
+  tangents[n - 1] = slopes[n - 2];
+  for (let i = 1; i < n - 1; i++) {
+    tangents[i] = slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  }
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const h = a * a + b * b;
+    if (h > 9) {
+      const t = 3 / Math.sqrt(h);
+      tangents[i] = t * a * slopes[i];
+      tangents[i + 1] = t * b * slopes[i];
+    }
+  }
+
+  let segment = 0;
+  for (let x = 0; x < 256; x++) {
+    if (x <= pts[0].x) {
+      table[x] = pts[0].y;
+      continue;
+    }
+    if (x >= pts[n - 1].x) {
+      table[x] = pts[n - 1].y;
+      continue;
+    }
+    while (x > pts[segment + 1].x) segment++;
+
+    const p0 = pts[segment];
+    const p1 = pts[segment + 1];
+    const h = p1.x - p0.x;
+    const t = (x - p0.x) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    const y =
+      (2 * t3 - 3 * t2 + 1) * p0.y +
+      (t3 - 2 * t2 + t) * h * tangents[segment] +
+      (-2 * t3 + 3 * t2) * p1.y +
+      (t3 - t2) * h * tangents[segment + 1];
+    table[x] = clampLevel(y);
+  }
+  return table;
+};
@@ -0,0 +1,71 @@
+/**
+ * Minimal ZIP archive reader, the counterpart of zipWriter.
+ *
+ * Only stored (uncompressed) entries can be read, which covers every archive BananaLens writes.
+ * Entry data is sliced from the source Blob on demand, so opening a large archive only reads its
+ * central directory.
+ */
+
+const END_OF_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  blob: () => Promise<Blob>;
+}
+
+const readView = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+// The end-of-directory record sits at the very end, unless the archive has a trailing comment.
+const findEndOfDirectory = async (archive: Blob): Promise<DataView> => {
+  const start = Math.max(0, archive.size - END_OF_DIRECTORY_SIZE - MAX_COMMENT_SIZE);
+  const tail = await readView(archive, start, archive.size);
+  for (let i = tail.byteLength - END_OF_DIRECTORY_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      return new DataView(tail.buffer, tail.byteOffset + i, END_OF_DIRECTORY_SIZE);
+    }
+  }
+  throw new Error("This file isn't a ZIP archive.");
+};
+
+export const readZip = async (archive: Blob): Promise<ZipEntry[]> => {
+  const end = await findEndOfDirectory(archive);
+  const count = end.getUint16(10, true);
+  const directorySize = end.getUint32(12, true);
+  const directoryStart = end.getUint32(16, true);
+  const directory = await readView(archive, directoryStart, directoryStart + directorySize);
+  const decoder = new TextDecoder();
+
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+    if (pos + 46 > directory.byteLength || directory.getUint32(pos, true) !== 0x02014b50) {
+      throw new Error("The ZIP archive is damaged.");
+    }
+    const method = directory.getUint16(pos + 10, true);
+    const size = directory.getUint32(pos + 20, true);
+    const nameLength = directory.getUint16(pos + 28, true);
+    const extraLength = directory.getUint16(pos + 30, true);
+    const commentLength = directory.getUint16(pos + 32, true);
+    const headerOffset = directory.getUint32(pos + 42, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + pos + 46, nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue; // Folder entry
+    entries.push({
+      name,
+      size,
+      blob: async () => {
+        if (method !== 0) throw new Error(`"${name}" is compressed, which BananaLens can't read.`);
+        // The local header's own name and extra lengths can differ from the central directory's
+        const header = await readView(archive, headerOffset, headerOffset + 30);
+        if (header.getUint32(0, true) !== 0x04034b50) throw new Error("The ZIP archive is damaged.");
+        const dataStart = headerOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+        return archive.slice(dataStart, dataStart + size);
+      }
+    });
+  }
+  return entries;
+};
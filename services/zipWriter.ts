@@ -0,0 +1,135 @@
+/**
+ * Minimal ZIP archive writer for bundling exports in the browser.
+ *
+ * Entries are stored uncompressed: the images are already compressed, so deflating them again
+ * would cost time for almost no gain. Each entry is kept as the Blob it was added as and the
+ * archive is only assembled by the browser when the final Blob is read, so large exports are
+ * never copied into one big buffer. Checksums are computed a chunk at a time for the same reason.
+ */
+
+// ZIP without the ZIP64 extension caps sizes and offsets at 32 bits
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+const CRC_CHUNK_SIZE = 4 * 1024 * 1024;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Continues a running CRC (start from 0xffffffff) over more bytes; finish with `(crc ^ 0xffffffff) >>> 0`
+const updateCrc32 = (crc: number, bytes: Uint8Array): number => {
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return crc;
+};
+
+const crc32 = async (data: Blob | Uint8Array): Promise<number> => {
+  let crc = 0xffffffff;
+  if (data instanceof Uint8Array) crc = updateCrc32(crc, data);
+  else {
+    for (let start = 0; start < data.size; start += CRC_CHUNK_SIZE) {
+      crc = updateCrc32(crc, new Uint8Array(await data.slice(start, start + CRC_CHUNK_SIZE).arrayBuffer()));
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date/time as used by ZIP headers (local time, 2-second resolution)
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+interface CentralRecord {
+  name: ReturnType<TextEncoder["encode"]>;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+export interface ZipWriter {
+  /** Adds a file. Names may contain `/` for folders. */
+  add: (name: string, data: Blob | string) => Promise<void>;
+  /** Writes the central directory and returns the finished archive. */
+  finish: () => Blob;
+}
+
+export const createZipWriter = (): ZipWriter => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  const add = async (name: string, data: Blob | string) => {
+    const content = typeof data === "string" ? encoder.encode(data) : data;
+    const size = content instanceof Uint8Array ? content.length : content.size;
+    const nameBytes = encoder.encode(name);
+    const { time, date } = toDosDateTime(new Date());
+
+    if (records.length >= MAX_ENTRIES || offset + 30 + nameBytes.length + size > MAX_ZIP_SIZE) {
+      throw new Error("The export is too large for a single ZIP file. Please export fewer photos at once.");
+    }
+    const crc = await crc32(content);
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true); // Local file header signature
+    header.setUint16(4, 20, true); // Version needed to extract
+    header.setUint16(6, 0x0800, true); // Flags: names are UTF-8
+    header.setUint16(8, 0, true); // Method: stored
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, size, true); // Compressed size
+    header.setUint32(22, size, true); // Uncompressed size
+    header.setUint16(26, nameBytes.length, true);
+    header.setUint16(28, 0, true); // Extra field length
+
+    parts.push(header.buffer, nameBytes, content);
+    records.push({ name: nameBytes, crc, size, offset, time, date });
+    offset += 30 + nameBytes.length + size;
+  };
+
+  const finish = () => {
+    const directoryStart = offset;
+    let directorySize = 0;
+
+    for (const record of records) {
+      const entry = new DataView(new ArrayBuffer(46));
+      entry.setUint32(0, 0x02014b50, true); // Central directory header signature
+      entry.setUint16(4, 20, true); // Version made by
+      entry.setUint16(6, 20, true); // Version needed to extract
+      entry.setUint16(8, 0x0800, true);
+      entry.setUint16(10, 0, true);
+      entry.setUint16(12, record.time, true);
+      entry.setUint16(14, record.date, true);
+      entry.setUint32(16, record.crc, true);
+      entry.setUint32(20, record.size, true);
+      entry.setUint32(24, record.size, true);
+      entry.setUint16(28, record.name.length, true);
+      // Extra, comment, disk number, internal and external attributes stay 0
+      entry.setUint32(42, record.offset, true);
+      parts.push(entry.buffer, record.name);
+      directorySize += 46 + record.name.length;
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true); // End of central directory signature
+    end.setUint16(8, records.length, true); // Entries on this disk
+    end.setUint16(10, records.length, true); // Total entries
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, directoryStart, true);
+    parts.push(end.buffer);
+
+    return new Blob(parts, { type: "application/zip" });
+  };
+
+  return { add, finish };
+};
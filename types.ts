@@ -1,3 +1,15 @@
+export interface CurvePoint {
+  x: number; // Input level 0-255
+  y: number; // Output level 0-255
+}
+
+export interface ToneCurves {
+  rgb: CurvePoint[];   // Applied to all channels, before the per-channel curves
+  red: CurvePoint[];
+  green: CurvePoint[];
+  blue: CurvePoint[];
+}
+
 export interface FilterSettings {
   brightness: number; // 0-200, default 100
   contrast: number;   // 0-200, default 100
@@ -6,26 +18,229 @@ export interface FilterSettings {
   grayscale: number;  // 0-100, default 0
   hueRotate: number;  // 0-360, default 0
   blur: number;       // 0-20, default 0
-  warmth: number;     // Simulated via sepia/hue mix logic in UI, but simplified here
+  clarity: number;    // -100-100, default 0. Midtone local contrast; <0 softens
+  sharpen: number;    // 0-100, default 0. Unsharp mask strength
+  vignette: number;   // -100-100, default 0. <0 darkens the edges, >0 lightens them
+  vignetteMidpoint: number;  // 0-100, default 50. How far from the center the falloff starts
+  vignetteRoundness: number; // -100-100, default 0. 0 follows the frame, 100 is a circle, <0 squares it off
+  grain: number;      // 0-100, default 0. Film grain strength
+  grainSize: number;  // 0-100, default 25
+  warmth: number;     // -100-100, default 0. <0 cools (blue), >0 warms (amber)
+  tint: number;       // -100-100, default 0. <0 shifts green, >0 shifts magenta
+  highlights: number; // -100-100, default 0. <0 recovers blown highlights
+  shadows: number;    // -100-100, default 0. >0 lifts blocked shadows
+  blackPoint: number; // 0-254, default 0. Input level mapped to pure black
+  whitePoint: number; // 1-255, default 255. Input level mapped to pure white
+  curves: ToneCurves; // Default is a straight line from (0,0) to (255,255)
+  lutId: string | null; // Color-grading 3D LUT applied after everything else, default null
+  lutIntensity: number; // 0-100, default 100. Blend between the ungraded and graded image
+  localAdjustments: LocalAdjustment[]; // Masked adjustments applied in order after the global ones, default []
+}
+
+// Fractions (0-1) of the source image, before crop and rotation
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+export interface BrushStroke {
+  points: MaskPoint[];
+  radius: number; // Fraction of the source image's long edge
+  erase: boolean; // Removes mask painted by earlier strokes
+}
+
+export type MaskShape =
+  | { type: 'linear'; start: MaskPoint; end: MaskPoint } // Full strength at start, none at end
+  | { type: 'radial'; center: MaskPoint; radiusX: number; radiusY: number } // Radii as fractions of the source's width and height
+  | { type: 'brush'; strokes: BrushStroke[] };
+
+export type MaskType = MaskShape['type'];
+
+// The slider settings a mask can change locally; values mean the same as in FilterSettings
+export type LocalSettings = Pick<FilterSettings, 'brightness' | 'contrast' | 'saturation' | 'highlights' | 'shadows' | 'warmth' | 'tint'>;
+
+export interface LocalAdjustment {
+  id: string;
+  name: string;
+  mask: MaskShape;
+  feather: number;  // 0-100. Share of the mask's extent spent fading out; 0 is a hard edge
+  invert: boolean;  // Adjusts everything outside the mask instead
+  settings: LocalSettings;
+}
+
+export type HistorySource = 'initial' | 'ai' | 'manual' | 'preset';
+
+export interface HistoryEntry {
+  id: string;
+  source: HistorySource;
+  label: string;       // What changed, e.g. the prompt text, a slider name or a preset name
+  detail?: string;     // Extra context such as the AI reasoning
+  settings: FilterSettings; // Full snapshot after this step
+  timestamp: number;
+}
+
+export interface EditHistory {
+  entries: HistoryEntry[];
+  index: number;       // Entry currently applied; entries after it can be redone
+}
+
+export interface Lut3D {
+  id: string;
+  name: string;
+  size: number;                         // Grid points per axis
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  data: Float32Array;                   // size^3 RGB triples (0-1), red index varying fastest
+}
+
+export type QuarterTurns = 0 | 90 | 180 | 270;
+
+export type AspectPreset = 'free' | 'original' | '1:1' | '4:5' | '16:9';
+
+// Fractions (0-1) of the straightened frame
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Geometry {
+  rotation: QuarterTurns; // Clockwise
+  flipH: boolean;
+  flipV: boolean;
+  straighten: number;     // Degrees, -45 to 45, clockwise
+  crop: CropRect;
+  aspect: AspectPreset;   // Ratio the crop is locked to while editing
+}
+
+export interface ExifData {
+  make?: string;
+  model?: string;
+  lensModel?: string;
+  orientation?: number;     // EXIF orientation 1-8 of the original file
+  dateTaken?: string;       // EXIF format, "YYYY:MM:DD HH:MM:SS"
+  exposureTime?: number;    // Seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number;     // Millimetres
+  focalLength35mm?: number;
+  exposureBias?: number;    // EV
+  artist?: string;
+  copyright?: string;
+  software?: string;
+  gps?: { latitude: number; longitude: number; altitude?: number };
+}
+
+export type ColorLabel = 'red' | 'yellow' | 'green' | 'blue' | 'purple';
+
+export interface Album {
+  id: string;
+  name: string;
+  createdAt: number;
 }
 
 export interface PhotoItem {
   id: string;
-  originalUrl: string; // Base64 or Blob URL
+  originalUrl: string; // Object URL of the untouched original; decode through previewService unless exporting
   name: string;
   timestamp: number;
   settings: FilterSettings;
+  history?: EditHistory;
+  aiReasoning?: string; // Reasoning from the last AI look applied to this photo
+  exif?: ExifData;      // Metadata read from the original file on import
+  geometry?: Geometry;  // Crop, rotation and flips; missing means untouched
+  albumIds?: string[];  // Albums the photo belongs to
+  rating?: number;      // 1-5 stars; missing means unrated
+  label?: ColorLabel;
+  tags?: string[];      // Lowercase, without duplicates
   previewUrl?: string; // Optional processed preview
 }
 
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'error' | 'cancelled';
+
+export interface BatchJobItem {
+  photoId: string;
+  name: string;
+  status: BatchItemStatus;
+  error?: string;
+  reasoning?: string;
+}
+
+export interface Preset {
+  id: string;
+  name: string;
+  settings: FilterSettings;
+  thumbnail?: string;  // Small JPEG data URL showing the look
+  prompt?: string;     // Prompt that produced the look, if it came from the AI
+  reasoning?: string;  // AI reasoning for the look, if any
+  createdAt: number;
+}
+
+export type ExportFormat = 'jpeg' | 'webp' | 'png';
+
+export type ExportResizeMode = 'original' | 'longEdge' | 'percent';
+
+export type MetadataGroup = 'camera' | 'exposure' | 'date' | 'author';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  quality: number;          // 1-100, ignored for PNG
+  resizeMode: ExportResizeMode;
+  longEdge: number;         // Pixels, used when resizeMode is 'longEdge'
+  percent: number;          // 1-100, used when resizeMode is 'percent'
+  filenameTemplate: string; // Tokens: {name} {date} {time} {index} {width} {height}
+  metadata: MetadataGroup[]; // EXIF fields copied into JPEG exports
+  stripGps: boolean;         // Leave the GPS location out of exports
+}
+
+export interface ExportProfile {
+  id: string;
+  name: string;
+  options: ExportOptions;
+}
+
+export type EnhancementProviderId = 'gemini' | 'local';
+
+export interface AiPreferences {
+  provider: EnhancementProviderId;
+  model: string; // One of the provider's model ids
+}
+
+export type CommandId =
+  | 'palette' | 'spell' | 'variants' | 'compare' | 'holdOriginal' | 'crop' | 'maskOverlay' | 'save' | 'exportImage'
+  | 'exportSettings' | 'uploadNew' | 'undo' | 'redo' | 'copySettings' | 'pasteSettings'
+  | 'previousPhoto' | 'nextPhoto' | 'goHome' | 'goCollection' | 'goImport' | 'goExport' | 'goSettings';
+
+// Key combos like "Ctrl+Shift+Z" per command; an empty list turns a default shortcut off
+export type ShortcutOverrides = Partial<Record<CommandId, string[]>>;
+
+export interface Preferences {
+  exportOptions: ExportOptions; // Options used by the next export
+  exportProfiles: ExportProfile[];
+  ai: AiPreferences;            // Who answers "Cast a Spell"
+  shortcuts: ShortcutOverrides; // Only the shortcuts the user changed
+}
+
 export enum ViewMode {
   HOME = 'HOME',
   COLLECTION = 'COLLECTION',
   IMPORT = 'IMPORT',
   EXPORT = 'EXPORT',
+  SETTINGS = 'SETTINGS',
 }
 
+// One exchange in a refinement conversation: what was asked and how the AI answered
+export interface RefinementTurn {
+  prompt: string;
+  reasoning: string;
+}
+
+// A look suggested by an enhancement provider; LUTs and local adjustments stay under the user's control
+export type SuggestedSettings = Omit<FilterSettings, 'lutId' | 'lutIntensity' | 'localAdjustments'>;
+
 export interface AnalysisResult {
+  name?: string; // Short style name, e.g. "Moody Film", when the result is one of several variants
   reasoning: string;
-  suggestedSettings: FilterSettings;
+  suggestedSettings: SuggestedSettings;
 }
\ No newline at end of file